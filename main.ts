@@ -1,33 +1,75 @@
 import { Plugin, Notice, TFile } from 'obsidian';
 import { MeetingProcessorSettings, DEFAULT_SETTINGS, MeetingProcessorSettingTab } from './src/ui/settings-tab';
 import { CopilotClientManager } from './src/copilot-client';
+import { LlmProviderManager, PromptCache, ProcessingCancelledError } from './src/llm';
 import { MeetingRouter } from './src/meeting-router';
 import { validateMeetingFile } from './src/validators';
 import { StatusBarManager } from './src/ui/status-bar';
 import { SkillLoader } from './src/skill-loader';
+import { TranscriptImporter, TRANSCRIPT_EXTENSIONS } from './src/transcript-importer';
+import { TranscriptFileModal } from './src/ui/transcript-file-modal';
+import { UsageLedger } from './src/usage-ledger';
+import { DebugRunLog } from './src/debug-log';
+import { SkillValidator } from './src/skill-validator';
+import { PromptPreviewer } from './src/prompt-preview';
+
+/**
+ * Notes the report commands write (vault root)
+ */
+const USAGE_REPORT_PATH = 'Meeting Processor Usage Report.md';
+const SKILLS_REPORT_PATH = 'Meeting Processor Skills.md';
+const SKILL_VALIDATION_PATH = 'Meeting Processor Skill Validation.md';
+const PROMPT_PREVIEW_PATH = 'Meeting Processor Prompt Preview.md';
 
 export default class MeetingProcessorPlugin extends Plugin {
 	settings: MeetingProcessorSettings;
 	copilotClient: CopilotClientManager;
+	llm: LlmProviderManager;
 	statusBar: StatusBarManager;
 	router: MeetingRouter;
 	skillLoader: SkillLoader;
+	transcriptImporter: TranscriptImporter;
+	usageLedger: UsageLedger;
+	debugLog: DebugRunLog;
 	processing: boolean = false;
+	abortController: AbortController | null = null;
 
 	async onload() {
 		await this.loadSettings();
 
 		// Initialize components
 		this.statusBar = new StatusBarManager(this.addStatusBarItem());
-		this.copilotClient = new CopilotClientManager(this.settings);
-		
-		// Load skills
 		const pluginDir = (this.manifest as any).dir || '.obsidian/plugins/obsidean-meeting';
 		console.log('Plugin directory:', pluginDir);
-		this.skillLoader = new SkillLoader(this.app, pluginDir);
+
+		// Every model call is recorded for the usage report
+		this.usageLedger = new UsageLedger(this.app, `${pluginDir}/usage-ledger.jsonl`);
+		this.debugLog = new DebugRunLog(this.app, this.settings, this.manifest.version);
+		this.usageLedger.onRecord(this.debugLog.recordCall);
+		this.copilotClient = new CopilotClientManager(this.settings, this.usageLedger);
+
+		// Model responses are cached in the plugin's data folder
+		const promptCache = new PromptCache(this.app, this.settings, `${pluginDir}/cache`);
+		this.llm = new LlmProviderManager(this.settings, this.copilotClient, promptCache, this.usageLedger);
+		
+		// Load skills
+		this.skillLoader = new SkillLoader(this.app, pluginDir, this.settings);
 		await this.skillLoader.loadAll();
+
+		// Pick up edits to vault skills without a restart. Registered once the
+		// layout is ready, as the vault fires 'create' for every file at startup
+		this.app.workspace.onLayoutReady(() => {
+			this.registerEvent(this.app.vault.on('create', file => this.skillLoader.onVaultChange(file.path)));
+			this.registerEvent(this.app.vault.on('modify', file => this.skillLoader.onVaultChange(file.path)));
+			this.registerEvent(this.app.vault.on('delete', file => this.skillLoader.onVaultChange(file.path)));
+			this.registerEvent(this.app.vault.on('rename', async (file, oldPath) => {
+				await this.skillLoader.onVaultChange(oldPath);
+				await this.skillLoader.onVaultChange(file.path);
+			}));
+		});
 		
-		this.router = new MeetingRouter(this.app, this.settings, this.copilotClient, this.skillLoader, this.statusBar);
+		this.router = new MeetingRouter(this.app, this.settings, this.copilotClient, this.llm, this.skillLoader, this.statusBar, this.usageLedger, this.debugLog);
+		this.transcriptImporter = new TranscriptImporter(this.app, this.settings);
 
 		// Add ribbon icon
 		this.addRibbonIcon('brain-circuit', 'Process Meeting', async () => {
@@ -43,13 +85,78 @@ export default class MeetingProcessorPlugin extends Plugin {
 			}
 		});
 
+		this.addCommand({
+			id: 'process-meeting-force',
+			name: 'Process Meeting (Force Regenerate)',
+			callback: async () => {
+				await this.processMeeting(true);
+			}
+		});
+
+		this.addCommand({
+			id: 'cancel-processing',
+			name: 'Cancel Meeting Processing',
+			checkCallback: (checking: boolean) => {
+				if (!this.abortController) {
+					return false;
+				}
+				if (!checking) {
+					this.cancelProcessing();
+				}
+				return true;
+			}
+		});
+
+		this.addCommand({
+			id: 'import-transcript',
+			name: 'Import Transcript into Meeting',
+			callback: async () => {
+				await this.importTranscript();
+			}
+		});
+
+		this.addCommand({
+			id: 'show-usage-report',
+			name: 'Show Model Usage Report',
+			callback: async () => {
+				await this.showUsageReport();
+			}
+		});
+
+		this.addCommand({
+			id: 'show-skills',
+			name: 'Show Loaded Skills',
+			callback: async () => {
+				await this.openReport(SKILLS_REPORT_PATH, this.skillLoader.describeSkills());
+			}
+		});
+
+		this.addCommand({
+			id: 'validate-skills',
+			name: 'Validate Skills',
+			callback: async () => {
+				await this.validateSkills();
+			}
+		});
+
+		this.addCommand({
+			id: 'preview-prompts',
+			name: 'Preview Prompts for Current Meeting',
+			callback: async () => {
+				await this.previewPrompts();
+			}
+		});
+
 		// Add settings tab
 		this.addSettingTab(new MeetingProcessorSettingTab(this.app, this));
 
 		console.log('Meeting Processor plugin loaded');
 	}
 
-	async processMeeting() {
+	/**
+	 * @param forceRegenerate Ignore cached model responses and ask the model again
+	 */
+	async processMeeting(forceRegenerate: boolean = false) {
 		// Prevent double-clicks
 		if (this.processing) {
 			new Notice('Meeting processing already in progress');
@@ -58,6 +165,9 @@ export default class MeetingProcessorPlugin extends Plugin {
 
 		try {
 			this.processing = true;
+			this.abortController = new AbortController();
+			this.llm.setForceRegenerate(forceRegenerate);
+			this.statusBar.setClickHandler(() => this.cancelProcessing(), 'Click to cancel meeting processing');
 			this.statusBar.show('Validating meeting file...');
 
 			// Get active file
@@ -77,23 +187,162 @@ export default class MeetingProcessorPlugin extends Plugin {
 			this.statusBar.show('Detecting meeting type...');
 
 			// Route to appropriate handler
-			await this.router.process(file);
+			await this.router.process(file, this.abortController.signal);
 
 			this.statusBar.show('Meeting processed successfully', 3000);
 			new Notice('Meeting processing complete!');
 		} catch (error) {
+			if (error instanceof ProcessingCancelledError) {
+				console.log('Meeting processing cancelled');
+				new Notice('Meeting processing cancelled');
+				this.statusBar.show('Meeting processing cancelled', 3000);
+				return;
+			}
 			console.error('Meeting processing error:', error);
 			new Notice(`Error processing meeting: ${error.message}`);
 			this.statusBar.show('Error processing meeting', 5000);
 		} finally {
 			this.processing = false;
+			this.abortController = null;
+			this.llm.setForceRegenerate(false);
+			this.statusBar.setClickHandler(null);
+		}
+	}
+
+	/**
+	 * Cancel the running meeting processing
+	 * Aborts in-flight model calls and CLI processes; the current step's changes are rolled back
+	 */
+	cancelProcessing() {
+		if (!this.abortController || this.abortController.signal.aborted) {
+			return;
+		}
+
+		console.log('Cancelling meeting processing...');
+		this.statusBar.show('Cancelling...', 0);
+		this.abortController.abort();
+		this.llm.cancel();
+	}
+
+	async importTranscript() {
+		if (this.processing) {
+			new Notice('Meeting processing already in progress');
+			return;
+		}
+
+		const file = this.app.workspace.getActiveFile();
+		if (!file) {
+			new Notice('No file is currently open');
+			return;
+		}
+
+		const validation = await validateMeetingFile(file, this.app, this.settings);
+		if (!validation.valid) {
+			new Notice(validation.error || 'Not a valid meeting file');
+			return;
+		}
+
+		const source = await TranscriptFileModal.pick(this.app, TRANSCRIPT_EXTENSIONS);
+		if (!source) {
+			return;
+		}
+
+		try {
+			this.processing = true;
+			this.statusBar.show(`Importing ${source.name}...`);
+
+			const format = await this.transcriptImporter.importInto(file, source);
+
+			this.statusBar.show('Transcript imported', 3000);
+			new Notice(`Imported transcript (${format})`);
+		} catch (error) {
+			console.error('Transcript import error:', error);
+			new Notice(`Error importing transcript: ${error.message}`);
+			this.statusBar.show('Error importing transcript', 5000);
+		} finally {
+			this.processing = false;
+		}
+	}
+
+	/**
+	 * Write the usage ledger report to a note and open it
+	 */
+	async showUsageReport() {
+		try {
+			await this.openReport(USAGE_REPORT_PATH, await this.usageLedger.buildReport());
+		} catch (error) {
+			console.error('Usage report error:', error);
+			new Notice(`Error building usage report: ${error.message}`);
+		}
+	}
+
+	/**
+	 * Check every skill's sections and placeholders and open the results
+	 */
+	async validateSkills() {
+		const result = new SkillValidator(this.skillLoader).validate();
+		await this.openReport(SKILL_VALIDATION_PATH, result.report);
+
+		if (result.errors + result.warnings === 0) {
+			new Notice('All skills are valid');
+		} else {
+			new Notice(`Skill validation: ${result.errors} errors, ${result.warnings} warnings`);
+		}
+	}
+
+	/**
+	 * Render the prompts the open meeting would send, without calling the model
+	 */
+	async previewPrompts() {
+		const file = this.app.workspace.getActiveFile();
+		if (!file) {
+			new Notice('No file is currently open');
+			return;
+		}
+
+		const validation = await validateMeetingFile(file, this.app, this.settings);
+		if (!validation.valid) {
+			new Notice(validation.error || 'Not a valid meeting file');
+			return;
+		}
+
+		try {
+			const previewer = new PromptPreviewer(this.app, this.settings, this.llm, this.skillLoader, this.statusBar);
+			const preview = await previewer.preview(file, this.router.getMeetingType(file));
+			await this.openReport(PROMPT_PREVIEW_PATH, preview);
+		} catch (error) {
+			console.error('Prompt preview error:', error);
+			new Notice(`Error previewing prompts: ${error.message}`);
+		}
+	}
+
+	/**
+	 * Write a generated report note (replacing any previous one) and open it
+	 */
+	private async openReport(path: string, content: string) {
+		try {
+			const existing = this.app.vault.getAbstractFileByPath(path);
+
+			let reportFile: TFile;
+			if (existing instanceof TFile) {
+				await this.app.vault.modify(existing, content);
+				reportFile = existing;
+			} else {
+				reportFile = await this.app.vault.create(path, content);
+			}
+
+			await this.app.workspace.getLeaf(false).openFile(reportFile);
+		} catch (error) {
+			console.error(`Error writing ${path}:`, error);
+			new Notice(`Error writing ${path}: ${error.message}`);
 		}
 	}
 
 	onunload() {
 		// Cleanup
-		if (this.copilotClient) {
-			this.copilotClient.stop();
+		// Stops the Copilot client along with any other provider
+		if (this.llm) {
+			this.llm.stop();
 		}
 		console.log('Meeting Processor plugin unloaded');
 	}
@@ -1,16 +1,28 @@
-import { CopilotClient } from '@github/copilot-sdk';
+import { CopilotClient, MessageOptions } from '@github/copilot-sdk';
 import { MeetingProcessorSettings } from './ui/settings-tab';
+import { PromptOptions } from './llm/types';
+import { LlmTimeoutError, ProcessingCancelledError } from './llm/errors';
+import { sendStructuredPrompt, StructuredValidator } from './llm/structured';
+import { getImageMimeType } from './llm/images';
+import { UsageLedger, LedgerOutcome, outcomeOf } from './usage-ledger';
 
 /**
  * Manages Copilot SDK client lifecycle
  */
 export class CopilotClientManager {
 	private settings: MeetingProcessorSettings;
+	private usageLedger: UsageLedger | null;
 	private client: CopilotClient | null = null;
-	private activeSession: any | null = null;
+	/** Sessions with a prompt in flight, and how to cancel each one */
+	private activeSessions = new Map<any, (error: Error) => void>();
+	private runningProcesses = new Map<any, (error: Error) => void>();
 
-	constructor(settings: MeetingProcessorSettings) {
+	/**
+	 * @param usageLedger Records CLI calls that bypass the LLM provider layer
+	 */
+	constructor(settings: MeetingProcessorSettings, usageLedger: UsageLedger | null = null) {
 		this.settings = settings;
+		this.usageLedger = usageLedger;
 	}
 
 	/**
@@ -60,64 +72,77 @@ export class CopilotClientManager {
 
 	/**
 	 * Create a new session with the configured model
+	 * Each prompt gets its own session, so concurrent prompts don't share one
+	 * @param streaming Emit assistant.message_delta events as the response is generated
 	 */
-	async createSession(): Promise<any> {
+	async createSession(streaming: boolean = false): Promise<any> {
 		if (!this.client) {
 			await this.initialize();
 		}
 
-		// Close previous session if exists
-		if (this.activeSession) {
-			try {
-				await this.activeSession.destroy();
-			} catch (error) {
-				console.warn('Error closing previous session:', error);
-			}
-		}
-
-		this.activeSession = await this.client!.createSession({
-			model: this.settings.model
+		return await this.client!.createSession({
+			model: this.settings.model,
+			streaming
 		});
+	}
 
-		return this.activeSession;
+	/**
+	 * Authentication state reported by the CLI server
+	 */
+	async getAuthStatus(): Promise<{ isAuthenticated: boolean; login?: string; statusMessage?: string }> {
+		await this.initialize();
+		return await this.client!.getAuthStatus();
+	}
+
+	/**
+	 * Models available to the signed-in account
+	 */
+	async listModels(): Promise<{ id: string; name: string; vision: boolean }[]> {
+		await this.initialize();
+		const models = await this.client!.listModels();
+		return models.map(model => ({
+			id: model.id,
+			name: model.name,
+			vision: !!model.capabilities?.supports?.vision
+		}));
 	}
 
 	/**
 	 * Use Copilot CLI directly for JIRA queries via Atlassian MCP
 	 * The CLI has access to MCP servers that the SDK doesn't expose
+	 * @param prompt The rendered jira-population JIRA Query Prompt
 	 */
-	async queryJiraWithCLI(cloudId: string, jql: string): Promise<string> {
+	async queryJiraWithCLI(prompt: string, timeoutMs: number = 120000): Promise<string> {
 		const { spawn } = require('child_process');
+		const started = Date.now();
 		
-		return new Promise((resolve, reject) => {
+		const query = new Promise<string>((resolve, reject) => {
 			const cliPath = this.settings.copilotCliPath || 'copilot';
 			
 			console.log('Spawning CLI for JIRA query:', cliPath);
-			console.log('JQL:', jql);
-			
-			// Construct prompt to use Atlassian MCP tools
-			const fullPrompt = `Use the Atlassian MCP searchJiraIssuesUsingJql tool to query JIRA:
-- cloudId: "${cloudId}"
-- jql: "${jql}"
-- fields: ["summary", "status", "assignee"]
-- maxResults: 100
-
-For each issue in the results, extract and format as JSON:
-- key: the issue key (e.g., "GLCP-12345")
-- summary: the issue summary/title
-- status: the status name (e.g., "In Progress", "To Do")
-- assignee: the assignee display name (or "Unassigned" if null)
-
-Return ONLY a valid JSON array of issues with no explanation, markdown formatting, or code fences. Example:
-[{"key":"GLCP-123","summary":"Fix bug","status":"In Progress","assignee":"John Smith"}]`;
 			
 			// Use non-interactive mode with -p flag
-			const process = spawn(cliPath, ['-p', fullPrompt], {
+			const process = spawn(cliPath, ['-p', prompt], {
 				stdio: ['pipe', 'pipe', 'pipe']
 			});
 			
 			let stdout = '';
 			let stderr = '';
+			let timedOut = false;
+			
+			const timeout = setTimeout(() => {
+				timedOut = true;
+				console.warn(`CLI did not finish within ${timeoutMs}ms, killing process`);
+				process.kill();
+				reject(new LlmTimeoutError(timeoutMs, stdout));
+			}, timeoutMs);
+
+			// cancel() rejects first, then kills the process
+			this.runningProcesses.set(process, (error: Error) => {
+				timedOut = true;
+				clearTimeout(timeout);
+				reject(error);
+			});
 			
 			process.stdout.on('data', (data: Buffer) => {
 				stdout += data.toString();
@@ -128,6 +153,11 @@ Return ONLY a valid JSON array of issues with no explanation, markdown formattin
 			});
 			
 			process.on('close', (code: number) => {
+				clearTimeout(timeout);
+				this.runningProcesses.delete(process);
+				if (timedOut) {
+					return;
+				}
 				if (code !== 0) {
 					console.error('CLI error:', stderr);
 					reject(new Error(`CLI exited with code ${code}: ${stderr}`));
@@ -138,27 +168,42 @@ Return ONLY a valid JSON array of issues with no explanation, markdown formattin
 			});
 			
 			process.on('error', (error: Error) => {
+				clearTimeout(timeout);
+				this.runningProcesses.delete(process);
 				console.error('Failed to spawn CLI:', error);
 				reject(error);
 			});
 		});
+
+		try {
+			const output = await query;
+			this.recordCliCall('jira-cli', prompt, started, 'success', output);
+			return output;
+		} catch (error) {
+			this.recordCliCall('jira-cli', prompt, started, outcomeOf(error), '', error.message);
+			throw error;
+		}
 	}
 
 	/**
 	 * Use Copilot CLI directly for vision analysis
 	 * The CLI supports vision when files are referenced in the prompt
+	 * @param imagePaths Absolute paths of png, jpg, webp or gif files
 	 */
-	async analyzeImageWithCLI(imagePath: string, prompt: string): Promise<string> {
+	async analyzeImageWithCLI(imagePaths: string[], prompt: string, timeoutMs: number = 120000): Promise<string> {
 		const { spawn } = require('child_process');
+		imagePaths.forEach(getImageMimeType);
 		
-		return new Promise((resolve, reject) => {
+		const started = Date.now();
+		const analysis = new Promise<string>((resolve, reject) => {
 			const cliPath = this.settings.copilotCliPath || 'copilot';
 			
 			console.log('Spawning CLI for image analysis:', cliPath);
-			console.log('Image path:', imagePath);
+			console.log('Image paths:', imagePaths);
 			
-			// Reference the file directly in the prompt - this is how CLI does vision
-			const fullPrompt = `process the file [📷 ${imagePath}] to determine the names of people listed. Output ONLY a comma-separated list of full names with no other text.`;
+			// Reference the files directly in the prompt - this is how CLI does vision
+			const imageRefs = imagePaths.map(path => `[📷 ${path}]`).join(' ');
+			const fullPrompt = `process the ${imagePaths.length === 1 ? 'file' : 'files'} ${imageRefs} and answer the following.\n\n${prompt}`;
 			
 			// Use non-interactive mode with -p flag
 			const process = spawn(cliPath, ['-p', fullPrompt], {
@@ -167,6 +212,21 @@ Return ONLY a valid JSON array of issues with no explanation, markdown formattin
 			
 			let stdout = '';
 			let stderr = '';
+			let timedOut = false;
+			
+			const timeout = setTimeout(() => {
+				timedOut = true;
+				console.warn(`CLI did not finish within ${timeoutMs}ms, killing process`);
+				process.kill();
+				reject(new LlmTimeoutError(timeoutMs, stdout));
+			}, timeoutMs);
+
+			// cancel() rejects first, then kills the process
+			this.runningProcesses.set(process, (error: Error) => {
+				timedOut = true;
+				clearTimeout(timeout);
+				reject(error);
+			});
 			
 			process.stdout.on('data', (data: Buffer) => {
 				stdout += data.toString();
@@ -177,6 +237,11 @@ Return ONLY a valid JSON array of issues with no explanation, markdown formattin
 			});
 			
 			process.on('close', (code: number) => {
+				clearTimeout(timeout);
+				this.runningProcesses.delete(process);
+				if (timedOut) {
+					return;
+				}
 				if (code !== 0) {
 					console.error('CLI error:', stderr);
 					reject(new Error(`CLI exited with code ${code}: ${stderr}`));
@@ -187,62 +252,94 @@ Return ONLY a valid JSON array of issues with no explanation, markdown formattin
 			});
 			
 			process.on('error', (error: Error) => {
+				clearTimeout(timeout);
+				this.runningProcesses.delete(process);
 				console.error('Failed to spawn CLI:', error);
 				reject(error);
 			});
 		});
+
+		// Recorded separately from the SDK attempt the provider made first
+		const ledgerPrompt = `[images: ${imagePaths.join(', ')}]\n${prompt}`;
+		try {
+			const output = await analysis;
+			this.recordCliCall('image-cli', ledgerPrompt, started, 'success', output);
+			return output;
+		} catch (error) {
+			this.recordCliCall('image-cli', ledgerPrompt, started, outcomeOf(error), '', error.message);
+			throw error;
+		}
 	}
 
 	/**
-	 * Send a prompt with an image file for vision analysis
+	 * Send a prompt with image files attached through the SDK
+	 * @param imagePaths Absolute paths of png, jpg, webp or gif files
 	 */
-	async sendVisionPrompt(prompt: string, imagePathOrBase64: string, isFilePath: boolean = false): Promise<string> {
-		if (!this.activeSession) {
-			await this.createSession();
-		}
-
-		// Try different context formats to see what works
-		let context: any;
-		
-		if (isFilePath) {
-			// Try passing file path directly
-			console.log('Attempting vision with file path:', imagePathOrBase64);
-			context = {
-				files: [{ path: imagePathOrBase64, type: 'image' }]
-			};
-		} else {
-			// Try base64 format
-			context = {
-				images: [{
-					data: imagePathOrBase64,
-					mimeType: 'image/png'
-				}]
-			};
-		}
+	async sendVisionPrompt(prompt: string, imagePaths: string[], options: PromptOptions = {}): Promise<string> {
+		const attachments: MessageOptions['attachments'] = imagePaths.map(path => {
+			getImageMimeType(path);
+			return { type: 'file', path, displayName: path.split(/[\\/]/).pop() };
+		});
 
-		return this.sendPrompt(prompt, context);
+		console.log('Sending vision prompt via SDK with attachments:', imagePaths);
+		return this.sendPrompt(prompt, attachments, options);
 	}
 
 	/**
 	 * Send a prompt and wait for complete response
+	 * @param attachments Files sent with the prompt, e.g. images for vision
 	 */
-	async sendPrompt(prompt: string, context?: any): Promise<string> {
+	async sendPrompt(prompt: string, attachments?: MessageOptions['attachments'], options: PromptOptions = {}): Promise<string> {
 		// Create new session for each request to avoid stale sessions
 		// Sessions can expire after periods of inactivity
-		await this.createSession();
+		const session = await this.createSession(!!options.onChunk);
 
-		return new Promise((resolve, reject) => {
+		const response = new Promise<string>((resolve, reject) => {
 			let responseContent = '';
 			let hasResolved = false;
 			
-			// Set a timeout in case events don't fire
+			// Set a timeout in case events don't fire - never resolve with partial content
+			const timeoutMs = options.timeoutMs ?? 60000;
 			const timeout = setTimeout(() => {
 				if (!hasResolved) {
-					console.warn('Copilot response timeout, returning partial content:', responseContent.length, 'chars');
+					console.warn(`Copilot response timed out after ${timeoutMs}ms with ${responseContent.length} chars received`);
 					hasResolved = true;
-					resolve(responseContent);
+
+					// Clean up listeners and stop the model working on an abandoned request
+					try {
+						session.off('assistant.message', messageHandler);
+						session.off('assistant.message_delta', deltaHandler);
+						session.off('session.idle', idleHandler);
+						session.off('error', errorHandler);
+					} catch (e) {
+						console.error('Error removing listeners:', e);
+					}
+					session.abort().catch((e: any) => console.warn('Error aborting session:', e));
+
+					reject(new LlmTimeoutError(timeoutMs, responseContent));
 				}
-			}, 60000); // 60 second timeout
+			}, timeoutMs);
+
+			// cancel() stops waiting and aborts the session
+			this.activeSessions.set(session, (error: Error) => {
+				if (!hasResolved) {
+					console.log('Cancelling Copilot prompt');
+					clearTimeout(timeout);
+					hasResolved = true;
+
+					try {
+						session.off('assistant.message', messageHandler);
+						session.off('assistant.message_delta', deltaHandler);
+						session.off('session.idle', idleHandler);
+						session.off('error', errorHandler);
+					} catch (e) {
+						console.error('Error removing listeners:', e);
+					}
+					session.abort().catch((e: any) => console.warn('Error aborting session:', e));
+
+					reject(error);
+				}
+			});
 			
 			// Collect response chunks
 			const messageHandler = (event: any) => {
@@ -253,6 +350,13 @@ Return ONLY a valid JSON array of issues with no explanation, markdown formattin
 				}
 			};
 
+			// Forward streamed text (only emitted by streaming sessions)
+			const deltaHandler = (event: any) => {
+				if (event.data?.deltaContent && options.onChunk) {
+					options.onChunk(event.data.deltaContent);
+				}
+			};
+
 			// Wait for session to become idle
 			const idleHandler = () => {
 				console.log('Session idle event fired');
@@ -267,9 +371,10 @@ Return ONLY a valid JSON array of issues with no explanation, markdown formattin
 					// Clean up listeners
 					try {
 						console.log('  Removing event listeners...');
-						this.activeSession!.off('assistant.message', messageHandler);
-						this.activeSession!.off('session.idle', idleHandler);
-						this.activeSession!.off('error', errorHandler);
+						session.off('assistant.message', messageHandler);
+						session.off('assistant.message_delta', deltaHandler);
+						session.off('session.idle', idleHandler);
+						session.off('error', errorHandler);
 						console.log('  Event listeners removed');
 					} catch (error) {
 						console.error('  Error removing listeners:', error);
@@ -296,9 +401,10 @@ Return ONLY a valid JSON array of issues with no explanation, markdown formattin
 					
 					// Clean up listeners
 					try {
-						this.activeSession!.off('assistant.message', messageHandler);
-						this.activeSession!.off('session.idle', idleHandler);
-						this.activeSession!.off('error', errorHandler);
+						session.off('assistant.message', messageHandler);
+						session.off('assistant.message_delta', deltaHandler);
+						session.off('session.idle', idleHandler);
+						session.off('error', errorHandler);
 					} catch (e) {
 						console.error('Error removing listeners:', e);
 					}
@@ -309,13 +415,14 @@ Return ONLY a valid JSON array of issues with no explanation, markdown formattin
 
 			// Register event handlers BEFORE sending
 			console.log('Registering event handlers...');
-			this.activeSession!.on('assistant.message', messageHandler);
-			this.activeSession!.on('session.idle', idleHandler);
-			this.activeSession!.on('error', errorHandler);
+			session.on('assistant.message', messageHandler);
+			session.on('assistant.message_delta', deltaHandler);
+			session.on('session.idle', idleHandler);
+			session.on('error', errorHandler);
 
 			// Send the prompt
 			console.log('Sending prompt to session...');
-			this.activeSession!.send({ prompt, context }).catch((err: any) => {
+			session.send({ prompt, attachments }).catch((err: any) => {
 				console.error('Error sending prompt:', err);
 				if (!hasResolved) {
 					clearTimeout(timeout);
@@ -323,9 +430,10 @@ Return ONLY a valid JSON array of issues with no explanation, markdown formattin
 					
 					// Clean up listeners
 					try {
-						this.activeSession!.off('assistant.message', messageHandler);
-						this.activeSession!.off('session.idle', idleHandler);
-						this.activeSession!.off('error', errorHandler);
+						session.off('assistant.message', messageHandler);
+						session.off('assistant.message_delta', deltaHandler);
+						session.off('session.idle', idleHandler);
+						session.off('error', errorHandler);
 					} catch (e) {
 						console.error('Error removing listeners:', e);
 					}
@@ -334,20 +442,67 @@ Return ONLY a valid JSON array of issues with no explanation, markdown formattin
 				}
 			});
 		});
+
+		try {
+			return await response;
+		} finally {
+			this.activeSessions.delete(session);
+			session.destroy().catch((error: any) => console.warn('Error closing session:', error));
+		}
+	}
+
+	/**
+	 * Send a prompt that must be answered with JSON matching a schema
+	 * Malformed or invalid responses are sent back for repair before giving up;
+	 * only a response that validates is passed on as cacheable (shouldCache)
+	 * @param schema Schema description shown to the model
+	 * @param validate Returns the typed result, or throws StructuredOutputError
+	 */
+	async sendStructuredPrompt<T>(prompt: string, schema: string, validate: StructuredValidator<T>, options: PromptOptions = {}): Promise<T> {
+		return await sendStructuredPrompt(
+			(attemptPrompt, isValid) => this.sendPrompt(attemptPrompt, undefined, { ...options, shouldCache: isValid }),
+			prompt,
+			schema,
+			validate
+		);
+	}
+
+	private recordCliCall(kind: string, prompt: string, started: number, outcome: LedgerOutcome, response: string, error?: string): void {
+		this.usageLedger?.record({
+			timestamp: new Date(started).toISOString(),
+			kind,
+			provider: 'copilot',
+			model: 'copilot-cli',
+			promptChars: prompt.length,
+			responseChars: response.length,
+			durationMs: Date.now() - started,
+			outcome
+		}, { prompt, response, error });
+	}
+
+	/**
+	 * Cancel every pending prompt and kill any running CLI processes
+	 * Each cancelled call rejects with ProcessingCancelledError
+	 */
+	cancel(): void {
+		for (const cancelPrompt of this.activeSessions.values()) {
+			cancelPrompt(new ProcessingCancelledError());
+		}
+		this.activeSessions.clear();
+
+		for (const [process, rejectProcess] of this.runningProcesses) {
+			console.log('Killing Copilot CLI process', process.pid);
+			rejectProcess(new ProcessingCancelledError());
+			process.kill();
+		}
+		this.runningProcesses.clear();
 	}
 
 	/**
 	 * Stop the client and cleanup
 	 */
 	async stop(): Promise<void> {
-		if (this.activeSession) {
-			try {
-				await this.activeSession.destroy();
-			} catch (error) {
-				console.warn('Error destroying session:', error);
-			}
-			this.activeSession = null;
-		}
+		this.cancel();
 
 		if (this.client) {
 			try {
@@ -0,0 +1,99 @@
+import { App, Notice, parseYaml } from 'obsidian';
+import { MeetingProcessorSettings } from './ui/settings-tab';
+import { TranscriptDetector, TranscriptCleaner, RegexTranscriptCleaner, CustomCleanerDefinition } from './transcript';
+
+/**
+ * Loads user-defined transcript cleaners from a JSON or YAML file in the vault
+ *
+ * The file is re-read whenever it changes, so edits apply on the next run
+ * without reloading the plugin.
+ */
+export class CustomCleanerLoader {
+	private app: App;
+	private settings: MeetingProcessorSettings;
+	private cleaners: TranscriptCleaner[] = [];
+	private loadedPath = '';
+	private loadedMtime = -1;
+
+	constructor(app: App, settings: MeetingProcessorSettings) {
+		this.app = app;
+		this.settings = settings;
+	}
+
+	/**
+	 * Load the configured cleaners into a detector
+	 */
+	async applyTo(detector: TranscriptDetector): Promise<void> {
+		detector.setCustomCleaners(await this.load());
+	}
+
+	/**
+	 * Load (or return cached) cleaners from the configured file
+	 * Invalid entries are skipped with a notice; a missing file means no custom cleaners
+	 */
+	async load(): Promise<TranscriptCleaner[]> {
+		const path = this.settings.customCleanersPath.trim().replace(/^\//, '');
+		if (!path) {
+			this.reset();
+			return this.cleaners;
+		}
+
+		const adapter = this.app.vault.adapter;
+		const stat = await adapter.stat(path);
+		if (!stat) {
+			if (this.loadedPath !== path) {
+				console.warn(`Custom cleaners file not found: ${path}`);
+			}
+			this.reset();
+			this.loadedPath = path;
+			return this.cleaners;
+		}
+
+		// Unchanged since last load
+		if (path === this.loadedPath && stat.mtime === this.loadedMtime) {
+			return this.cleaners;
+		}
+
+		this.reset();
+		this.loadedPath = path;
+		this.loadedMtime = stat.mtime;
+
+		try {
+			const text = await adapter.read(path);
+			for (const definition of this.parseDefinitions(path, text)) {
+				try {
+					this.cleaners.push(new RegexTranscriptCleaner(definition));
+				} catch (error) {
+					console.warn(`Skipping custom cleaner in ${path}:`, error.message);
+					new Notice(`Skipping a custom transcript cleaner in ${path}: ${error.message}`);
+				}
+			}
+			console.log(`Loaded ${this.cleaners.length} custom transcript cleaners from ${path}`);
+		} catch (error) {
+			console.error(`Failed to load custom cleaners from ${path}:`, error);
+			new Notice(`Could not load custom transcript cleaners from ${path}: ${error.message}`);
+		}
+
+		return this.cleaners;
+	}
+
+	/**
+	 * Accepts either a list of definitions or an object with a "cleaners" list
+	 */
+	private parseDefinitions(path: string, text: string): CustomCleanerDefinition[] {
+		const data = /\.json$/i.test(path) ? JSON.parse(text) : parseYaml(text);
+		const definitions = Array.isArray(data) ? data : data?.cleaners;
+
+		if (!Array.isArray(definitions)) {
+			throw new Error('Expected a list of cleaners (or a "cleaners:" list)');
+		}
+
+		return definitions;
+	}
+
+	private reset(): void {
+		this.cleaners = [];
+		this.loadedPath = '';
+		this.loadedMtime = -1;
+	}
+}
@@ -0,0 +1,161 @@
+import { App, TFile, normalizePath } from 'obsidian';
+import { MeetingProcessorSettings } from './ui/settings-tab';
+import { Skill } from './skill-loader';
+import { LedgerEntry, LedgerCallDetail } from './usage-ledger';
+
+/**
+ * A model call as written to the debug log
+ */
+interface DebugCall {
+	timestamp: string;
+	step: string;
+	kind: string;
+	provider: string;
+	model: string;
+	durationMs: number;
+	outcome: string;
+	prompt: string;
+	response: string;
+	error?: string;
+}
+
+/**
+ * Everything recorded about one processing run
+ */
+interface DebugRun {
+	pluginVersion: string;
+	meeting: string;
+	meetingType: string;
+	startedAt: string;
+	finishedAt?: string;
+	outcome?: string;
+	error?: string;
+	settings: Record<string, unknown>;
+	/** Skill name -> content hash */
+	skills: Record<string, string>;
+	/** Free-form facts noted by handlers, e.g. the transcript cleaner used */
+	details: Record<string, string>;
+	calls: DebugCall[];
+}
+
+/**
+ * Writes each processing run to a JSON file next to the meeting (when Debug Mode is on)
+ *
+ * Calls are collected from the usage ledger, so every prompt, raw response and
+ * error is captured with its step. The file name includes the run time, so
+ * runs can be diffed or attached to bug reports.
+ */
+export class DebugRunLog {
+	private app: App;
+	private settings: MeetingProcessorSettings;
+	private pluginVersion: string;
+	private file: TFile | null = null;
+	private run: DebugRun | null = null;
+
+	constructor(app: App, settings: MeetingProcessorSettings, pluginVersion: string) {
+		this.app = app;
+		this.settings = settings;
+		this.pluginVersion = pluginVersion;
+	}
+
+	/**
+	 * Start collecting a run (does nothing unless Debug Mode is on)
+	 */
+	startRun(file: TFile, meetingType: string, skills: Map<string, Skill>): void {
+		if (!this.settings.debugMode) {
+			this.file = null;
+			this.run = null;
+			return;
+		}
+
+		const skillVersions: Record<string, string> = {};
+		for (const [name, skill] of skills) {
+			skillVersions[name] = skill.version;
+		}
+
+		this.file = file;
+		this.run = {
+			pluginVersion: this.pluginVersion,
+			meeting: file.path,
+			meetingType,
+			startedAt: new Date().toISOString(),
+			settings: {
+				llmProvider: this.settings.llmProvider,
+				model: this.settings.model,
+				llmModel: this.settings.llmModel,
+				removeDisfluencies: this.settings.removeDisfluencies,
+				linkSpeakers: this.settings.linkSpeakers,
+				summaryChunkSize: this.settings.summaryChunkSize,
+				customCleanersPath: this.settings.customCleanersPath
+			},
+			skills: skillVersions,
+			details: {},
+			calls: []
+		};
+	}
+
+	/**
+	 * Ledger listener - adds a call to the current run
+	 */
+	recordCall = (entry: LedgerEntry, detail: LedgerCallDetail | null): void => {
+		if (!this.run) {
+			return;
+		}
+
+		this.run.calls.push({
+			timestamp: entry.timestamp,
+			step: entry.step,
+			kind: entry.kind,
+			provider: entry.provider,
+			model: entry.model,
+			durationMs: entry.durationMs,
+			outcome: entry.outcome,
+			prompt: detail?.prompt ?? '',
+			response: detail?.response ?? '',
+			error: detail?.error
+		});
+	};
+
+	/**
+	 * Record a fact about the run, e.g. note('transcriptCleaner', 'Teams')
+	 */
+	note(key: string, value: string): void {
+		if (this.run) {
+			this.run.details[key] = value;
+		}
+	}
+
+	/**
+	 * Write the run next to the meeting
+	 * @returns Path of the log file, or null if Debug Mode is off
+	 */
+	async finishRun(error: Error | null = null): Promise<string | null> {
+		const run = this.run;
+		const file = this.file;
+		this.run = null;
+		this.file = null;
+
+		if (!run || !file) {
+			return null;
+		}
+
+		run.finishedAt = new Date().toISOString();
+		run.outcome = error ? error.name : 'success';
+		if (error) {
+			run.error = error.message;
+		}
+
+		const stamp = run.startedAt.replace(/[-:]/g, '').replace('T', '-').substring(0, 15);
+		const folder = file.parent ? file.parent.path : '';
+		const path = normalizePath(`${folder}/${file.basename}.debug-${stamp}.json`);
+
+		try {
+			await this.app.vault.adapter.write(path, JSON.stringify(run, null, 2));
+			console.log(`Debug log written to ${path} (${run.calls.length} calls)`);
+			return path;
+		} catch (writeError) {
+			console.error('Failed to write debug log:', writeError);
+			return null;
+		}
+	}
+}
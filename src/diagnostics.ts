@@ -0,0 +1,376 @@
+import { requestUrl } from 'obsidian';
+import { CopilotClientManager } from './copilot-client';
+import { LlmProviderManager } from './llm';
+import { JiraApiClient } from './jira/api-client';
+import { MeetingProcessorSettings } from './ui/settings-tab';
+
+export type DiagnosticStatus = 'pass' | 'warn' | 'fail' | 'skip';
+
+/**
+ * Outcome of one diagnostic check
+ */
+export interface DiagnosticResult {
+	name: string;
+	status: DiagnosticStatus;
+	detail: string;
+	/** How to fix it, for anything but a pass */
+	hint?: string;
+}
+
+/**
+ * Limit for each CLI call: --version, sign-in status and the model list
+ */
+const CLI_TIMEOUT_MS = 15000;
+const TEST_PROMPT_TIMEOUT_MS = 60000;
+
+/**
+ * Checks the CLI, authentication, model and JIRA settings one by one
+ * so the settings tab can show what works and how to fix what doesn't
+ */
+export class ConnectionDiagnostics {
+	private settings: MeetingProcessorSettings;
+	private copilotClient: CopilotClientManager;
+	private llm: LlmProviderManager;
+
+	constructor(settings: MeetingProcessorSettings, copilotClient: CopilotClientManager, llm: LlmProviderManager) {
+		this.settings = settings;
+		this.copilotClient = copilotClient;
+		this.llm = llm;
+	}
+
+	/**
+	 * Run every check in order
+	 * @param onResult Called as each check finishes, so results can be shown progressively
+	 */
+	async run(onResult: (result: DiagnosticResult) => void = () => {}): Promise<DiagnosticResult[]> {
+		const results: DiagnosticResult[] = [];
+		const report = (result: DiagnosticResult) => {
+			console.log(`Diagnostics: ${result.name} - ${result.status}: ${result.detail}`);
+			results.push(result);
+			onResult(result);
+		};
+
+		if (this.settings.llmProvider === 'openai') {
+			report(await this.checkEndpointModels());
+			report(await this.checkTestPrompt());
+		} else if (this.settings.llmProvider === 'mock') {
+			report({ name: 'Model provider', status: 'warn', detail: 'The mock provider is selected - meetings get canned responses', hint: 'Choose GitHub Copilot or an OpenAI-compatible endpoint under AI Provider' });
+		} else {
+			const cli = await this.checkCli();
+			report(cli);
+			if (cli.status === 'fail') {
+				report({ name: 'Authentication', status: 'skip', detail: 'Skipped - the CLI did not start' });
+				report({ name: 'Available models', status: 'skip', detail: 'Skipped - the CLI did not start' });
+				report({ name: 'Test prompt', status: 'skip', detail: 'Skipped - the CLI did not start' });
+			} else {
+				const auth = await this.checkAuth();
+				report(auth);
+				report(await this.checkCopilotModels());
+				if (auth.status === 'fail') {
+					report({ name: 'Test prompt', status: 'skip', detail: 'Skipped - not signed in' });
+				} else {
+					report(await this.checkTestPrompt());
+				}
+			}
+		}
+
+		for (const result of await this.checkJira()) {
+			report(result);
+		}
+
+		return results;
+	}
+
+	/**
+	 * Find the CLI on PATH (unless a path is set), then run it with --version
+	 */
+	private async checkCli(): Promise<DiagnosticResult> {
+		const name = 'Copilot CLI';
+		const cliPath = this.settings.copilotCliPath || 'copilot';
+		const resolved = await this.resolveExecutable(cliPath);
+		const notFound: DiagnosticResult = {
+			name,
+			status: 'fail',
+			detail: `"${cliPath}" was not found${resolved === cliPath ? '' : ' on the PATH Obsidian sees'}`,
+			hint: 'Run "which copilot" in a terminal and paste the full path into Copilot CLI Path. Install the Copilot CLI first if it is missing.'
+		};
+
+		if (!resolved) {
+			return notFound;
+		}
+
+		try {
+			const version = await this.spawnForOutput(resolved, ['--version'], CLI_TIMEOUT_MS);
+			return { name, status: 'pass', detail: `${resolved} (${version.split('\n')[0] || 'version unknown'})` };
+		} catch (error) {
+			if (error.code === 'ENOENT') {
+				return notFound;
+			}
+			return {
+				name,
+				status: 'fail',
+				detail: `${resolved} could not be run: ${error.message}`,
+				hint: 'Check the file is the Copilot CLI and is executable (chmod +x), then try running it in a terminal.'
+			};
+		}
+	}
+
+	private async checkAuth(): Promise<DiagnosticResult> {
+		const name = 'Authentication';
+		try {
+			const status = await this.withTimeout(this.copilotClient.getAuthStatus(), 'Checking sign-in');
+			if (status.isAuthenticated) {
+				return { name, status: 'pass', detail: status.login ? `Signed in as ${status.login}` : 'Signed in' };
+			}
+			return {
+				name,
+				status: 'fail',
+				detail: status.statusMessage || 'Not signed in',
+				hint: 'Run "copilot auth login" in a terminal, then run diagnostics again.'
+			};
+		} catch (error) {
+			return {
+				name,
+				status: 'fail',
+				detail: error.message,
+				hint: 'The CLI runs but the client could not connect to it. Update the CLI and restart Obsidian.'
+			};
+		}
+	}
+
+	private async checkCopilotModels(): Promise<DiagnosticResult> {
+		const name = 'Available models';
+		try {
+			const models = await this.withTimeout(this.copilotClient.listModels(), 'Listing models');
+			return this.describeModels(name, models.map(model => model.id), models.filter(model => model.vision).map(model => model.id), this.settings.model);
+		} catch (error) {
+			return {
+				name,
+				status: 'fail',
+				detail: `Could not list models: ${error.message}`,
+				hint: 'Check that your Copilot subscription is active and the CLI is up to date.'
+			};
+		}
+	}
+
+	/**
+	 * GET /models on the OpenAI-compatible endpoint
+	 */
+	private async checkEndpointModels(): Promise<DiagnosticResult> {
+		const name = 'Available models';
+		const endpoint = (this.settings.llmEndpoint || 'http://localhost:11434/v1').replace(/\/+$/, '');
+		const headers: Record<string, string> = { 'Accept': 'application/json' };
+		if (this.settings.llmApiKey) {
+			headers['Authorization'] = `Bearer ${this.settings.llmApiKey}`;
+		}
+
+		try {
+			const response = await requestUrl({ url: `${endpoint}/models`, method: 'GET', headers, throw: false });
+			if (response.status === 401 || response.status === 403) {
+				return { name, status: 'fail', detail: `${endpoint} rejected the API key (${response.status})`, hint: 'Check the API Key setting.' };
+			}
+			if (response.status !== 200) {
+				return { name, status: 'fail', detail: `${endpoint}/models answered ${response.status}`, hint: 'Check the Endpoint setting - it should end in /v1 for most servers.' };
+			}
+
+			const ids: string[] = (response.json?.data || []).map((model: any) => model.id);
+			return this.describeModels(name, ids, null, this.settings.llmModel);
+		} catch (error) {
+			return {
+				name,
+				status: 'fail',
+				detail: `Could not reach ${endpoint}: ${error.message}`,
+				hint: 'Start the server (e.g. "ollama serve") and check the Endpoint setting.'
+			};
+		}
+	}
+
+	/**
+	 * @param visionIds Models that accept images, or null if the provider doesn't say
+	 */
+	private describeModels(name: string, ids: string[], visionIds: string[] | null, selected: string): DiagnosticResult {
+		if (ids.length === 0) {
+			return { name, status: 'warn', detail: 'No models were listed', hint: 'Check your subscription or pull a model on the server.' };
+		}
+
+		const list = ids.join(', ');
+		// Ollama lists "llama3.2:latest" for a model requested as "llama3.2"
+		if (!ids.includes(selected) && !ids.includes(`${selected}:latest`)) {
+			return {
+				name,
+				status: 'fail',
+				detail: `Selected model "${selected}" is not available. Available: ${list}`,
+				hint: 'Change the Model setting to one of the available models.'
+			};
+		}
+
+		if (this.settings.describeImages && visionIds && !visionIds.includes(selected)) {
+			return {
+				name,
+				status: 'warn',
+				detail: `"${selected}" is available but does not accept images. Available: ${list}`,
+				hint: `Describe Images needs a vision model, e.g. ${visionIds.slice(0, 3).join(', ') || 'none listed'}.`
+			};
+		}
+
+		return { name, status: 'pass', detail: `"${selected}" is available. Available: ${list}` };
+	}
+
+	/**
+	 * Send a tiny prompt straight to the provider - no cache, retries or usage ledger
+	 */
+	private async checkTestPrompt(): Promise<DiagnosticResult> {
+		const name = 'Test prompt';
+		const started = Date.now();
+		try {
+			const response = await this.llm.getProvider().sendPrompt('Reply with the single word OK.', { timeoutMs: TEST_PROMPT_TIMEOUT_MS });
+			const seconds = ((Date.now() - started) / 1000).toFixed(1);
+			if (!response.trim()) {
+				return { name, status: 'warn', detail: `Empty response after ${seconds}s`, hint: 'Try a different model.' };
+			}
+			return { name, status: 'pass', detail: `${this.llm.getName()} replied "${response.trim().substring(0, 40)}" in ${seconds}s` };
+		} catch (error) {
+			return {
+				name,
+				status: 'fail',
+				detail: error.message,
+				hint: error.name === 'LlmTimeoutError'
+					? `No reply within ${TEST_PROMPT_TIMEOUT_MS / 1000}s. The model may be overloaded or still loading - try again or pick another model.`
+					: 'Check the model name and that your account can use it.'
+			};
+		}
+	}
+
+	/**
+	 * Credentials, project key and both board IDs
+	 */
+	private async checkJira(): Promise<DiagnosticResult[]> {
+		const jira = new JiraApiClient(this.settings);
+		if (!jira.isConfigured()) {
+			return [{
+				name: 'JIRA credentials',
+				status: 'skip',
+				detail: 'No JIRA email or API token set',
+				hint: 'Standups need these to add sprint issues. Create a token at https://id.atlassian.com/manage-profile/security/api-tokens'
+			}];
+		}
+
+		const results: DiagnosticResult[] = [];
+		try {
+			const user = await jira.getCurrentUser();
+			results.push({ name: 'JIRA credentials', status: 'pass', detail: `Signed in as ${user.displayName || user.emailAddress}` });
+		} catch (error) {
+			const unauthorized = /\((401|403)\)/.test(error.message);
+			results.push({
+				name: 'JIRA credentials',
+				status: 'fail',
+				detail: error.message,
+				hint: unauthorized
+					? 'Check JIRA Email and JIRA API Token - the token must belong to that email.'
+					: 'Check JIRA Base URL, e.g. https://your-company.atlassian.net'
+			});
+			return results;
+		}
+
+		if (this.settings.jiraProjectKey) {
+			const ok = await jira.testConnection();
+			results.push(ok
+				? { name: 'JIRA project', status: 'pass', detail: `Project ${this.settings.jiraProjectKey} can be searched` }
+				: { name: 'JIRA project', status: 'fail', detail: `Searching project ${this.settings.jiraProjectKey} failed`, hint: 'Check the project key and that your account can browse it.' });
+		}
+
+		for (const [team, boardId] of [['Green', this.settings.greenBoardId], ['Magenta', this.settings.magentaBoardId]]) {
+			const name = `${team} board`;
+			if (!boardId) {
+				results.push({ name, status: 'skip', detail: 'No board ID set' });
+				continue;
+			}
+
+			try {
+				const board = await jira.getBoard(boardId);
+				results.push(board.activeSprints.length > 0
+					? { name, status: 'pass', detail: `${board.name} (active: ${board.activeSprints.join(', ')})` }
+					: { name, status: 'warn', detail: `${board.name} has no active sprint`, hint: 'Standups will show no issues until a sprint is started.' });
+			} catch (error) {
+				results.push({
+					name,
+					status: 'fail',
+					detail: `Board ${boardId}: ${error.message}`,
+					hint: 'The board ID is the number after /boards/ in the board URL.'
+				});
+			}
+		}
+
+		return results;
+	}
+
+	/**
+	 * Path of an executable: a configured path as is (running it shows whether
+	 * it exists), a bare name looked up with which/where on the PATH Obsidian sees
+	 */
+	private async resolveExecutable(command: string): Promise<string | null> {
+		if (command.includes('/') || command.includes('\\')) {
+			return command;
+		}
+
+		try {
+			const output = await this.spawnForOutput(process.platform === 'win32' ? 'where' : 'which', [command], CLI_TIMEOUT_MS);
+			return output.split(/\r?\n/)[0].trim() || null;
+		} catch (error) {
+			return null;
+		}
+	}
+
+	/**
+	 * The CLI can start and then never answer - don't leave the panel on "Running..."
+	 */
+	private withTimeout<T>(promise: Promise<T>, what: string): Promise<T> {
+		return new Promise((resolve, reject) => {
+			const timeout = setTimeout(() => reject(new Error(`${what} got no response within ${CLI_TIMEOUT_MS / 1000}s`)), CLI_TIMEOUT_MS);
+			promise.then(
+				value => {
+					clearTimeout(timeout);
+					resolve(value);
+				},
+				error => {
+					clearTimeout(timeout);
+					reject(error);
+				}
+			);
+		});
+	}
+
+	private spawnForOutput(command: string, args: string[], timeoutMs: number): Promise<string> {
+		const { spawn } = require('child_process');
+
+		return new Promise((resolve, reject) => {
+			const child = spawn(command, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+			let stdout = '';
+			let stderr = '';
+
+			const timeout = setTimeout(() => {
+				child.kill();
+				reject(new Error(`no response within ${timeoutMs / 1000}s`));
+			}, timeoutMs);
+
+			child.stdout.on('data', (data: Buffer) => {
+				stdout += data.toString();
+			});
+			child.stderr.on('data', (data: Buffer) => {
+				stderr += data.toString();
+			});
+			child.on('close', (code: number) => {
+				clearTimeout(timeout);
+				if (code === 0) {
+					resolve(stdout.trim());
+				} else {
+					reject(new Error(`exited with code ${code}${stderr ? `: ${stderr.trim()}` : ''}`));
+				}
+			});
+			child.on('error', (error: Error) => {
+				clearTimeout(timeout);
+				reject(error);
+			});
+		});
+	}
+}
@@ -1,16 +1,26 @@
 import { App, TFile } from 'obsidian';
 import { MeetingProcessorSettings } from '../ui/settings-tab';
 import { CopilotClientManager } from '../copilot-client';
+import { LlmProvider, LlmTimeoutError, ProcessingCancelledError, PromptOptions } from '../llm';
 import { detectTeam } from '../validators';
 import { SkillLoader } from '../skill-loader';
-import { TranscriptDetector } from '../transcript';
+import { TranscriptDetector, ParticipationAnalyzer, DisfluencyFilter, renderTranscript, isRenderedTranscript } from '../transcript';
 import { StatusBarManager } from '../ui/status-bar';
+import { TranscriptFormatSelector } from '../transcript-format-selector';
+import { CustomCleanerLoader } from '../custom-cleaner-loader';
+import { TranscriptSummarizer } from '../transcript-summarizer';
+import { SectionStreamWriter } from '../section-stream-writer';
+import { markSummaryIncomplete, clearSummaryStatus } from '../summary-status';
+import { MeetingExtractor } from '../meeting-extraction';
+import { ImageNotesExtractor } from '../image-notes';
+import { UsageLedger } from '../usage-ledger';
+import { DebugRunLog } from '../debug-log';
+import { buildPromptValues, stripCopilotDisclaimers } from '../prompt-values';
+import { isTranscriptFileReference } from '../transcript-importer';
+import { STANDUP_MEETING_TYPE } from '../meeting-types';
 import { JiraManager } from '../jira/manager';
 import { PeopleManager } from '../people-manager';
 import { JiraKeyExtractor } from '../jira/extractor';
-import * as mammoth from 'mammoth';
-import { readFile } from 'fs/promises';
-import { homedir } from 'os';
 
 /**
  * Handles processing of standup meetings
@@ -19,35 +29,58 @@ export class StandupMeetingHandler {
 	private app: App;
 	private settings: MeetingProcessorSettings;
 	private copilotClient: CopilotClientManager;
+	private llm: LlmProvider;
 	private skillLoader: SkillLoader;
 	private transcriptDetector: TranscriptDetector;
+	private participationAnalyzer: ParticipationAnalyzer;
+	private disfluencyFilter: DisfluencyFilter;
+	private formatSelector: TranscriptFormatSelector;
+	private customCleanerLoader: CustomCleanerLoader;
+	private summarizer: TranscriptSummarizer;
+	private meetingExtractor: MeetingExtractor;
+	private imageNotesExtractor: ImageNotesExtractor;
 	private statusBar: StatusBarManager;
+	private usageLedger: UsageLedger;
+	private debugLog: DebugRunLog;
+	private signal: AbortSignal | null = null;
+	private finishedStreams: SectionStreamWriter[] = [];
 	private jiraManager: JiraManager;
 	private peopleManager: PeopleManager;
 	private jiraExtractor: JiraKeyExtractor;
 
-	constructor(app: App, settings: MeetingProcessorSettings, copilotClient: CopilotClientManager, skillLoader: SkillLoader, statusBar: StatusBarManager) {
+	constructor(app: App, settings: MeetingProcessorSettings, copilotClient: CopilotClientManager, llm: LlmProvider, skillLoader: SkillLoader, statusBar: StatusBarManager, usageLedger: UsageLedger, debugLog: DebugRunLog) {
 		this.app = app;
 		this.settings = settings;
 		this.copilotClient = copilotClient;
+		this.llm = llm;
 		this.skillLoader = skillLoader;
 		this.transcriptDetector = new TranscriptDetector();
+		this.participationAnalyzer = new ParticipationAnalyzer();
+		this.disfluencyFilter = new DisfluencyFilter(settings);
+		this.formatSelector = new TranscriptFormatSelector(app, this.transcriptDetector);
+		this.customCleanerLoader = new CustomCleanerLoader(app, settings);
 		this.statusBar = statusBar;
-		this.jiraManager = new JiraManager(copilotClient, settings);
+		this.usageLedger = usageLedger;
+		this.debugLog = debugLog;
+		this.summarizer = new TranscriptSummarizer(settings, llm, statusBar, skillLoader);
+		this.jiraManager = new JiraManager(copilotClient, settings, skillLoader);
 		this.peopleManager = new PeopleManager(app);
+		this.meetingExtractor = new MeetingExtractor(settings, llm, this.peopleManager, skillLoader);
+		this.imageNotesExtractor = new ImageNotesExtractor(app, llm, skillLoader);
 		this.jiraExtractor = new JiraKeyExtractor();
 	}
 
 	/**
 	 * Process a standup meeting file
 	 */
-	async process(file: TFile): Promise<void> {
+	async process(file: TFile, signal?: AbortSignal): Promise<void> {
 		console.log('Processing standup meeting:', file.basename);
+		this.signal = signal || null;
 
 		try {
-			const team = detectTeam(file);
+			const team = detectTeam(file, this.app);
 			if (!team) {
-				throw new Error('Could not determine team from filename');
+				throw new Error('Could not determine team - set "team: green" or "team: magenta" in the frontmatter');
 			}
 
 			const boardId = team === 'green' ? this.settings.greenBoardId : this.settings.magentaBoardId;
@@ -93,6 +126,7 @@ export class StandupMeetingHandler {
 	private async processPreMeeting(file: TFile, boardId: string, teamName: string): Promise<void> {
 		console.log('Pre-meeting mode: populating JIRA section...');
 		this.statusBar.show('Querying JIRA...', 0);
+		this.usageLedger.setStep('jira-query');
 
 		try {
 			// Query and format JIRA issues (pass team name to help find correct sprint)
@@ -101,6 +135,7 @@ export class StandupMeetingHandler {
 				this.settings.jiraProjectKey,
 				teamName
 			);
+			this.throwIfCancelled();
 
 			// Insert into file
 			await this.insertJiraSection(file, jiraSection);
@@ -165,23 +200,54 @@ export class StandupMeetingHandler {
 
 		// 1. Process attendees (screenshot or expected list)
 		this.statusBar.show('Processing attendees...', 0);
+		this.usageLedger.setStep('attendees');
 		await this.processAttendees(file, content);
+		this.throwIfCancelled();
 
 		// 2. Clean transcript (if no Copilot Summary and setting enabled)
 		const hasCopilotSummary = this.hasCopilotSummary(content);
 		if (!hasCopilotSummary && this.settings.autoCleanTranscript) {
 			this.statusBar.show('Cleaning transcript...', 0);
+			this.usageLedger.setStep('transcript-cleaning');
 			await this.cleanTranscript(file);
+			this.throwIfCancelled();
 		}
 
-		// 3. Generate summary
+		// 3. Describe embedded whiteboard/slide images (if enabled)
+		if (this.settings.describeImages) {
+			this.statusBar.show('Describing images...', 0);
+			this.usageLedger.setStep('image-notes');
+			await this.describeImages(file);
+			this.throwIfCancelled();
+		}
+
+		// 4. Generate summary
 		this.statusBar.show('Generating summary...', 0);
+		this.usageLedger.setStep('summary');
 		await this.generateSummary(file);
+		this.throwIfCancelled();
 
-		// 4. Extract JIRA updates mentioned in meeting
+		// 5. Extract structured outcomes (if enabled)
+		if (this.settings.extractOutcomes) {
+			this.statusBar.show('Extracting action items...', 0);
+			this.usageLedger.setStep('outcomes');
+			await this.extractOutcomes(file);
+			this.throwIfCancelled();
+		}
+
+		// 6. Extract JIRA updates mentioned in meeting
 		await this.extractJiraUpdates(file, content);
 	}
 
+	/**
+	 * Stop between steps once the user has cancelled, leaving the note as the last step left it
+	 */
+	private throwIfCancelled(): void {
+		if (this.signal?.aborted) {
+			throw new ProcessingCancelledError();
+		}
+	}
+
 	private hasCopilotSummary(content: string): boolean {
 		const summaryMatch = content.match(/# Copilot Summary\s*\n([\s\S]*?)(?=\n#|$)/);
 		if (!summaryMatch) return false;
@@ -193,7 +259,7 @@ export class StandupMeetingHandler {
 		console.log('Processing standup attendees...');
 		
 		// Check for screenshot references
-		const screenshotPattern = /!\[\[(SCR-[^\]]+\.png)\]\]/g;
+		const screenshotPattern = /!\[\[(SCR-[^\]]+\.(?:png|jpe?g|webp))\]\]/gi;
 		const screenshots: string[] = [];
 		let match;
 		
@@ -215,6 +281,8 @@ export class StandupMeetingHandler {
 			extractedNames = await this.extractFromContent(content);
 		}
 
+		this.throwIfCancelled();
+
 		if (extractedNames.length > 0) {
 			console.log(`Extracted ${extractedNames.length} attendees:`, extractedNames);
 			await this.updateAttendeesSection(file, extractedNames);
@@ -243,9 +311,9 @@ export class StandupMeetingHandler {
 				const adapter = this.app.vault.adapter;
 				const fullPath = (adapter as any).getFullPath(imagePath.path);
 				
-				const prompt = `Extract all participant names from this Microsoft Teams meeting screenshot. Output ONLY a comma-separated list of full names like: "First Last, First Last". No other text or explanation.`;
+				const prompt = this.skillLoader.renderPrompt('attendee-extraction', 'Screenshot Prompt');
 
-				const response = await this.copilotClient.analyzeImageWithCLI(fullPath, prompt);
+				const response = await this.llm.analyzeImages([fullPath], prompt);
 				console.log('Vision response:', response);
 				
 				if (response.includes("don't see") || response.includes("cannot see") || 
@@ -273,6 +341,9 @@ export class StandupMeetingHandler {
 					console.log(`Extracted ${names.length} names from ${screenshot}`);
 				}
 			} catch (error) {
+				if (error instanceof ProcessingCancelledError) {
+					throw error;
+				}
 				console.error(`Error processing screenshot ${screenshot}:`, error);
 				visionFailed = true;
 			}
@@ -376,16 +447,50 @@ export class StandupMeetingHandler {
 			return;
 		}
 
-		// Detect format and clean
-		const result = this.transcriptDetector.detectAndClean(transcriptContent);
+		// Already cleaned (and maybe speaker-linked) by an earlier run or the importer - parsing it
+		// again as a raw export would drop or misattribute turns
+		if (isRenderedTranscript(transcriptContent)) {
+			console.log('Transcript is already cleaned, leaving it unchanged');
+			return;
+		}
+
+		// Detect format (asking the user if ambiguous) and parse into speaker entries
+		await this.customCleanerLoader.applyTo(this.transcriptDetector);
+		const cleaner = await this.formatSelector.select(file, transcriptContent);
+		this.throwIfCancelled();
+		const result = this.transcriptDetector.detectAndParse(transcriptContent, cleaner);
 		console.log(`Cleaned transcript using: ${result.cleaner}`);
+		this.debugLog.note('transcriptCleaner', result.cleaner);
+
+		if (result.entries.length === 0) {
+			console.log('No speaker turns found, leaving transcript unchanged');
+			return;
+		}
+
+		// Strip fillers, stutters and backchannels (if enabled)
+		let entries = this.settings.removeDisfluencies
+			? this.disfluencyFilter.apply(result.entries)
+			: result.entries;
+
+		// Link speakers to their People profiles (if enabled)
+		if (this.settings.linkSpeakers) {
+			entries = await this.peopleManager.linkSpeakers(entries);
+		}
+
+		// Re-read - choosing a format may have updated the frontmatter
+		const latestContent = await this.app.vault.read(file);
 
 		// Replace transcript section
-		const newContent = content.replace(
+		let newContent = latestContent.replace(
 			/# Transcript\s*\n[\s\S]*?(?=\n#|$)/,
-			`# Transcript\n\n${result.cleaned}\n\n`
+			`# Transcript\n\n${renderTranscript(entries)}\n\n`
 		);
 
+		// Add speaker participation stats (if enabled)
+		if (this.settings.includeParticipation) {
+			newContent = this.participationAnalyzer.updateSection(newContent, entries);
+		}
+
 		await this.app.vault.modify(file, newContent);
 		console.log('Transcript cleaned and saved');
 	}
@@ -425,13 +530,30 @@ export class StandupMeetingHandler {
 		const hasTranscript = this.hasTranscript(content);
 
 		// Route to appropriate workflow
-		if (hasCopilotSummary && hasTranscript) {
-			console.log('Both sources available - using enhanced workflow');
-			await this.generateEnhancedSummary(file, content);
-		} else {
-			console.log('Single source available - using standard workflow');
-			await this.generateStandardSummary(file, content);
+		this.finishedStreams = [];
+		try {
+			if (hasCopilotSummary && hasTranscript) {
+				console.log('Both sources available - using enhanced workflow');
+				await this.generateEnhancedSummary(file, content);
+			} else {
+				console.log('Single source available - using standard workflow');
+				await this.generateStandardSummary(file, content);
+			}
+		} catch (error) {
+			// Sections streamed by earlier calls in this step must not outlive it
+			await this.rollbackFinishedStreams();
+
+			// Never save half a response - flag the note so the user knows to reprocess
+			if (error instanceof LlmTimeoutError) {
+				await markSummaryIncomplete(this.app, file, error.message);
+				throw new Error(`${error.message} - summary not saved, process the meeting again to retry`);
+			}
+			throw error;
+		} finally {
+			this.finishedStreams = [];
 		}
+
+		await clearSummaryStatus(this.app, file);
 	}
 
 	/**
@@ -440,13 +562,6 @@ export class StandupMeetingHandler {
 	private async generateStandardSummary(file: TFile, content: string): Promise<void> {
 		console.log('Generating standard summary...');
 		
-		// Get the summary generation skill
-		const summarySkill = this.skillLoader.getSkill('summary-generation');
-		if (!summarySkill) {
-			console.warn('Summary generation skill not found');
-			return;
-		}
-
 		// Extract transcript or Copilot Summary for analysis
 		let contentToSummarize = '';
 		
@@ -468,32 +583,24 @@ export class StandupMeetingHandler {
 		}
 
 		try {
-			// Build prompt with skill instructions and standup context
-			const prompt = `This is a standup meeting. ${summarySkill.purpose}
-
-${summarySkill.sections.get('Analysis Points') || ''}
-${summarySkill.sections.get('Output Format') || ''}
-
-Meeting content to summarize:
-
-${contentToSummarize}
-
-Please generate a summary focused on: what was completed yesterday, what's planned for today, and any blockers mentioned.`;
-
-			// Get summary from Copilot
-			const summary = await this.copilotClient.sendPrompt(prompt);
+			const { skill, section } = STANDUP_MEETING_TYPE.prompts.summary;
+			const prompt = this.skillLoader.renderPrompt(skill, section, {
+				...this.getPromptValues(file, content),
+				content: contentToSummarize
+			});
+
+			// Get summary from Copilot (streamed into the note if enabled)
+			const summary = await this.generateInto(file, 'Summary', null,
+				options => this.llm.sendPrompt(prompt, options));
 			
-			// Update Summary section
+			// Update Summary section (on the latest content - streaming has changed the note since it was read)
 			const summaryRegex = /# Summary\s*\n[\s\S]*?(?=\n#|$)/;
-			let newContent: string;
-			
-			if (summaryRegex.test(content)) {
-				newContent = content.replace(summaryRegex, `# Summary\n\n${summary}\n\n`);
-			} else {
-				newContent = content + `\n\n# Summary\n\n${summary}\n`;
-			}
-
-			await this.app.vault.modify(file, newContent);
+			await this.app.vault.process(file, (latest) => {
+				if (summaryRegex.test(latest)) {
+					return latest.replace(summaryRegex, `# Summary\n\n${summary}\n\n`);
+				}
+				return latest + `\n\n# Summary\n\n${summary}\n`;
+			});
 			console.log('Standup summary generated and saved');
 		} catch (error) {
 			console.error('Error generating summary:', error);
@@ -510,31 +617,40 @@ Please generate a summary focused on: what was completed yesterday, what's plann
 		try {
 			// Step 1: Generate Transcript Summary
 			this.statusBar.show('Generating transcript summary...', 0);
-			const transcriptSummary = await this.generateTranscriptSummary(content);
+			this.usageLedger.setStep('transcript-summary');
+			const transcriptSummary = await this.generateTranscriptSummary(file, content);
 			
 			if (!transcriptSummary) {
 				console.warn('Failed to generate transcript summary, falling back to standard');
+				// The fallback replaces the enhanced sections, so drop any already streamed
+				await this.rollbackFinishedStreams();
 				await this.generateStandardSummary(file, content);
 				return;
 			}
 
 			// Step 2: Combine both summaries
 			this.statusBar.show('Combining summaries...', 0);
-			const unifiedSummary = await this.combineSummaries(content, transcriptSummary);
+			this.usageLedger.setStep('combine-summaries');
+			const unifiedSummary = await this.combineSummaries(file, content, transcriptSummary);
 			
 			if (!unifiedSummary) {
 				console.warn('Failed to combine summaries, falling back to standard');
+				await this.rollbackFinishedStreams();
 				await this.generateStandardSummary(file, content);
 				return;
 			}
 
 			// Step 3: Update all sections
-			await this.updateSummarySections(file, content, unifiedSummary, transcriptSummary);
+			await this.updateSummarySections(file, unifiedSummary, transcriptSummary);
 			
 			console.log('Enhanced summary generated successfully');
 		} catch (error) {
 			console.error('Error in enhanced summary generation:', error);
+			if (error instanceof LlmTimeoutError || error instanceof ProcessingCancelledError) {
+				throw error;
+			}
 			console.log('Falling back to standard summary generation');
+			await this.rollbackFinishedStreams();
 			await this.generateStandardSummary(file, content);
 		}
 	}
@@ -542,7 +658,7 @@ Please generate a summary focused on: what was completed yesterday, what's plann
 	/**
 	 * Generate summary from transcript content
 	 */
-	private async generateTranscriptSummary(content: string): Promise<string | null> {
+	private async generateTranscriptSummary(file: TFile, content: string): Promise<string | null> {
 		console.log('Generating transcript summary...');
 		
 		// Extract transcript
@@ -552,133 +668,23 @@ Please generate a summary focused on: what was completed yesterday, what's plann
 			return null;
 		}
 
-		let transcriptContent = transcriptMatch[1].trim();
+		const transcriptContent = transcriptMatch[1].trim();
 		console.log('Transcript content length:', transcriptContent.length);
 		console.log('Transcript preview:', transcriptContent.substring(0, 200));
 
-		// Check if transcript is a file reference (Word doc, etc.) and try to extract text
-		if (transcriptContent.length < 200 && (
-			transcriptContent.includes('.docx') ||
-			transcriptContent.includes('.doc') ||
-			transcriptContent.includes('![[') // Embedded file
-		)) {
-			console.log('Detected file reference in transcript, attempting to extract text...');
-			
-			try {
-				// Extract filename from various formats:
-				// ![[filename.docx]]
-				// [[filename.docx]]
-				// filename.docx
-				// /absolute/path/file.docx
-				// ~/Documents/file.docx
-				let filename = transcriptContent;
-				
-				// Remove wiki link syntax if present
-				filename = filename.replace(/!?\[\[/g, '').replace(/\]\]/g, '').trim();
-				
-				console.log('Extracted filename:', filename);
-				
-				// Check if it's an absolute or home path (external file)
-				const isAbsolutePath = filename.startsWith('/');
-				const isHomePath = filename.startsWith('~');
-				
-				let buffer: Buffer;
-				
-				if (isAbsolutePath || isHomePath) {
-					// External file - use Node.js fs
-					console.log('Detected external file path');
-					
-					// Expand ~ to home directory
-					let fullPath = filename;
-					if (isHomePath) {
-						fullPath = filename.replace(/^~/, homedir());
-					}
-					
-					console.log('Reading external file:', fullPath);
-					
-					// Only support .docx (not old .doc format)
-					if (!fullPath.toLowerCase().endsWith('.docx')) {
-						console.warn('Only .docx files are supported, found:', fullPath);
-						return null;
-					}
-					
-					// Read file from filesystem
-					buffer = await readFile(fullPath);
-					console.log('Read external file, size:', buffer.length);
-					
-				} else {
-					// Vault file - use Obsidian API
-					console.log('Detected vault file path');
-					
-					// Try common locations
-					const possiblePaths = [
-						filename,
-						`Media/${filename}`,
-						`Attachments/${filename}`,
-						`Files/${filename}`
-					];
-					
-					let docFile: TFile | null = null;
-					for (const path of possiblePaths) {
-						const file = this.app.vault.getAbstractFileByPath(path);
-						if (file instanceof TFile) {
-							docFile = file;
-							console.log('Found file in vault at:', path);
-							break;
-						}
-					}
-					
-					if (!docFile) {
-						console.warn('Could not find file in vault:', filename);
-						return null;
-					}
-					
-					// Only support .docx (not old .doc format)
-					if (!filename.toLowerCase().endsWith('.docx')) {
-						console.warn('Only .docx files are supported, found:', filename);
-						return null;
-					}
-					
-					// Read the file as binary
-					const arrayBuffer = await this.app.vault.readBinary(docFile);
-					
-					// Convert ArrayBuffer to Buffer for mammoth
-					buffer = Buffer.from(arrayBuffer);
-				}
-				
-				// Extract text using mammoth
-				const result = await mammoth.extractRawText({ buffer });
-				transcriptContent = result.value;
-				
-				console.log('Extracted text from Word doc, length:', transcriptContent.length);
-				console.log('Extracted text preview:', transcriptContent.substring(0, 200));
-				
-				if (!transcriptContent || transcriptContent.length < 20) {
-					console.warn('Extracted text is too short or empty');
-					return null;
-				}
-			} catch (error) {
-				console.error('Error extracting text from Word doc:', error);
-				return null;
-			}
+		// A linked file isn't transcript text; the importer brings its text in
+		if (isTranscriptFileReference(transcriptContent)) {
+			console.warn('Transcript is a file reference - use "Import Transcript into Meeting" to import its text');
+			return null;
 		}
 
 		try {
-			const prompt = `You are analyzing a standup meeting transcript. Generate a concise summary focused on:
-- What each person completed yesterday
-- What each person is planning for today  
-- Any blockers or issues mentioned
-- Key decisions or action items
-
-Format as clear bullet points organized by team member when possible.
-
-CRITICAL: Do NOT include any markdown headings (# or ##) in your response. Start directly with the content.
-
-Transcript:
-
-${transcriptContent}`;
+			const { skill, section } = STANDUP_MEETING_TYPE.prompts.transcriptSummary;
+			const instructions = this.skillLoader.renderPrompt(skill, section, this.getPromptValues(file, content));
 
-			const summary = await this.copilotClient.sendPrompt(prompt);
+			// Long transcripts are summarized in chunks and merged
+			const summary = await this.generateInto(file, 'Transcript Summary', 'Transcript',
+				options => this.summarizer.summarize(transcriptContent, instructions, options));
 			
 			// Strip any headings the AI might have added anyway
 			let cleaned = summary.trim();
@@ -687,6 +693,9 @@ ${transcriptContent}`;
 			return cleaned.trim();
 		} catch (error) {
 			console.error('Error generating transcript summary:', error);
+			if (error instanceof LlmTimeoutError || error instanceof ProcessingCancelledError) {
+				throw error;
+			}
 			return null;
 		}
 	}
@@ -694,7 +703,7 @@ ${transcriptContent}`;
 	/**
 	 * Combine Copilot Summary and Transcript Summary intelligently
 	 */
-	private async combineSummaries(content: string, transcriptSummary: string): Promise<string | null> {
+	private async combineSummaries(file: TFile, content: string, transcriptSummary: string): Promise<string | null> {
 		console.log('Combining summaries...');
 		
 		// Extract Copilot Summary (everything until next # heading)
@@ -715,16 +724,7 @@ ${transcriptContent}`;
 		}
 
 		// Strip disclaimer text if present (Teams adds this sometimes)
-		const disclaimerPatterns = [
-			/AI-generated content.*?may be incorrect.*?\[Learn more\]\([^)]+\)/gi,
-			/AI-generated content.*?may not be accurate.*?\[Learn more\]\([^)]+\)/gi,
-			/This summary was generated by AI.*?may be incorrect.*?\[Learn more\]\([^)]+\]/gi,
-			/\[Learn more\]\([^)]+\)/gi
-		];
-		
-		for (const pattern of disclaimerPatterns) {
-			copilotSummary = copilotSummary.replace(pattern, '').trim();
-		}
+		copilotSummary = stripCopilotDisclaimers(copilotSummary);
 		
 		console.log('Copilot Summary after disclaimer removal:', copilotSummary.length);
 		
@@ -735,26 +735,15 @@ ${transcriptContent}`;
 		}
 
 		try {
-			const prompt = `You are creating a unified summary for a standup meeting by combining two sources:
-
-1. **Teams Copilot Summary** (from Microsoft Teams AI):
-${copilotSummary}
-
-2. **Transcript Summary** (from meeting transcript):
-${transcriptSummary}
-
-Create a single, cohesive summary that:
-- Merges duplicate information (don't repeat the same point twice)
-- Preserves all unique insights from both sources
-- Maintains focus on: completed work, planned work, blockers
-- Uses clear, organized bullet points
-- Prioritizes accuracy and completeness
-
-CRITICAL: Do NOT include any markdown headings (# or ##) in your response. Start directly with the content.
-
-Generate the unified summary:`;
-
-			const unified = await this.copilotClient.sendPrompt(prompt);
+			const { skill, section } = STANDUP_MEETING_TYPE.prompts.combineSummaries;
+			const prompt = this.skillLoader.renderPrompt(skill, section, {
+				...this.getPromptValues(file, content),
+				copilotSummary,
+				transcriptSummary
+			});
+
+			const unified = await this.generateInto(file, 'Unified Summary', 'Copilot Summary',
+				options => this.llm.sendPrompt(prompt, options));
 			
 			// Strip any headings the AI might have added anyway
 			let cleaned = unified.trim();
@@ -763,21 +752,132 @@ Generate the unified summary:`;
 			return cleaned.trim();
 		} catch (error) {
 			console.error('Error combining summaries:', error);
+			if (error instanceof LlmTimeoutError || error instanceof ProcessingCancelledError) {
+				throw error;
+			}
 			return null;
 		}
 	}
 
+	/**
+	 * Placeholder values every prompt of this meeting can use
+	 */
+	private getPromptValues(file: TFile, content: string): Record<string, string> {
+		const team = detectTeam(file, this.app);
+		return buildPromptValues(file, content, team ? team.charAt(0).toUpperCase() + team.slice(1) : '');
+	}
+
+	/**
+	 * Describe whiteboard photos and slide screenshots embedded in the note into # Image Notes
+	 */
+	private async describeImages(file: TFile): Promise<void> {
+		const content = await this.app.vault.read(file);
+		const images = this.imageNotesExtractor.findImages(file, content);
+		if (images.length === 0) {
+			console.log('No embedded images to describe');
+			return;
+		}
+
+		try {
+			const notes = await this.imageNotesExtractor.describe(images);
+			this.throwIfCancelled();
+			if (notes === null) {
+				return;
+			}
+
+			await this.app.vault.process(file, (latest) => this.imageNotesExtractor.updateSection(latest, notes));
+			console.log(`Image notes saved for ${images.length} images`);
+		} catch (error) {
+			if (error instanceof ProcessingCancelledError) {
+				throw error;
+			}
+			console.error('Error describing embedded images:', error);
+			// Don't throw - image notes are optional
+		}
+	}
+
+	/**
+	 * Extract decisions, action items, risks and open questions into # Meeting Outcomes
+	 */
+	private async extractOutcomes(file: TFile): Promise<void> {
+		console.log('Extracting meeting outcomes...');
+
+		const content = await this.app.vault.read(file);
+		const source = this.meetingExtractor.selectSource(content);
+		if (!source) {
+			console.log('No summary or transcript to extract outcomes from');
+			return;
+		}
+
+		try {
+			const extraction = await this.meetingExtractor.extract(source);
+			this.throwIfCancelled();
+
+			const section = await this.meetingExtractor.render(extraction);
+			await this.app.vault.process(file, (latest) => this.meetingExtractor.updateSection(latest, section));
+			console.log('Meeting outcomes saved');
+		} catch (error) {
+			if (error instanceof ProcessingCancelledError) {
+				throw error;
+			}
+			console.error('Error extracting meeting outcomes:', error);
+			// Don't throw - the summary is already saved
+		}
+	}
+
+	/**
+	 * Remove sections streamed by finished calls in this step, leaving the note as it was before the step
+	 */
+	private async rollbackFinishedStreams(): Promise<void> {
+		for (const stream of this.finishedStreams) {
+			await stream.rollback();
+		}
+		this.finishedStreams = [];
+	}
+
+	/**
+	 * Run a model call, streaming its output into a note section when enabled
+	 * Partial output is rolled back if the call fails; the caller writes the final text
+	 */
+	private async generateInto(
+		file: TFile,
+		heading: string,
+		insertBefore: string | null,
+		generate: (options: PromptOptions) => Promise<string>
+	): Promise<string> {
+		if (!this.settings.streamSummaries) {
+			return await generate({});
+		}
+
+		const stream = new SectionStreamWriter(this.app, file, heading, insertBefore);
+		await stream.open();
+
+		try {
+			const result = await generate({ onChunk: stream.append, onRetry: stream.reset });
+			await stream.finish();
+			this.finishedStreams.push(stream);
+			return result;
+		} catch (error) {
+			await stream.rollback();
+			throw error;
+		}
+	}
+
 	/**
 	 * Update file with all summary sections in correct order
 	 */
 	private async updateSummarySections(
 		file: TFile, 
-		content: string, 
 		unifiedSummary: string, 
 		transcriptSummary: string
 	): Promise<void> {
 		console.log('Updating summary sections...');
 		
+		await this.app.vault.process(file, (latest) => this.insertSummarySections(latest, unifiedSummary, transcriptSummary));
+		console.log('All summary sections updated');
+	}
+
+	private insertSummarySections(content: string, unifiedSummary: string, transcriptSummary: string): string {
 		let newContent = content;
 
 		// Insert or update Transcript Summary (above Transcript)
@@ -810,13 +910,13 @@ Generate the unified summary:`;
 			}
 		}
 
-		await this.app.vault.modify(file, newContent);
-		console.log('All summary sections updated');
+		return newContent;
 	}
 
 	private async extractJiraUpdates(file: TFile, content: string): Promise<void> {
 		console.log('Extracting JIRA updates...');
 		this.statusBar.show('Checking JIRA mentions...', 0);
+		this.usageLedger.setStep('jira-updates');
 		
 		try {
 			// Extract content to analyze
@@ -0,0 +1,115 @@
+import { App, FileSystemAdapter, Notice, TFile } from 'obsidian';
+import { LlmProvider, IMAGE_MIME_TYPES } from './llm';
+import { SkillLoader } from './skill-loader';
+
+/**
+ * Images sent to the model in one vision call
+ */
+const IMAGES_PER_CALL = 5;
+
+/**
+ * Attendee screenshots are handled by attendee extraction, not described here
+ */
+const ATTENDEE_SCREENSHOT_PATTERN = /^SCR-/;
+
+/**
+ * Describes whiteboard photos, slide screenshots and other images embedded
+ * in a meeting note, for a # Image Notes section
+ */
+export class ImageNotesExtractor {
+	private app: App;
+	private llm: LlmProvider;
+	private skillLoader: SkillLoader;
+
+	constructor(app: App, llm: LlmProvider, skillLoader: SkillLoader) {
+		this.app = app;
+		this.llm = llm;
+		this.skillLoader = skillLoader;
+	}
+
+	/**
+	 * Embedded images (![[...]]) that resolve to vault files, excluding attendee screenshots
+	 * @returns Vault files in the order they're embedded
+	 */
+	findImages(file: TFile, content: string): TFile[] {
+		const embedPattern = /!\[\[([^\]|#]+)(?:[|#][^\]]*)?\]\]/g;
+		const images: TFile[] = [];
+		let match;
+
+		while ((match = embedPattern.exec(content)) !== null) {
+			const target = this.app.metadataCache.getFirstLinkpathDest(match[1].trim(), file.path);
+			if (!target || !IMAGE_MIME_TYPES[target.extension.toLowerCase()]) {
+				continue;
+			}
+			if (ATTENDEE_SCREENSHOT_PATTERN.test(target.name) || images.includes(target)) {
+				continue;
+			}
+			images.push(target);
+		}
+
+		return images;
+	}
+
+	/**
+	 * Ask the model to transcribe and summarize each image
+	 * Images are attached by filesystem path, so this needs the desktop app
+	 * @returns Markdown for the section body (no headings), or null if the vault isn't on the filesystem
+	 */
+	async describe(images: TFile[]): Promise<string | null> {
+		const adapter = this.app.vault.adapter;
+		if (!(adapter instanceof FileSystemAdapter)) {
+			console.warn('Vault is not on the local filesystem - skipping image notes');
+			new Notice('Image notes skipped: describing images needs the desktop app');
+			return null;
+		}
+		const parts: string[] = [];
+
+		for (const batch of this.batch(images)) {
+			const imagePaths = batch.map(image => adapter.getFullPath(image.path));
+			const prompt = this.buildPrompt(batch);
+
+			console.log(`Describing ${batch.length} embedded images:`, batch.map(image => image.path));
+			const response = await this.llm.analyzeImages(imagePaths, prompt);
+			parts.push(response.replace(/^#+\s.*$/gm, '').replace(/\n{3,}/g, '\n\n').trim());
+		}
+
+		return parts.join('\n\n');
+	}
+
+	/**
+	 * Prompt sent with one batch of images
+	 */
+	buildPrompt(batch: TFile[]): string {
+		const names = batch.map((image, j) => `${j + 1}. ${image.name}`).join('\n');
+		return this.skillLoader.renderPrompt('image-notes', 'Description Prompt', { images: names });
+	}
+
+	/**
+	 * Images sent together in one vision call
+	 */
+	batch(images: TFile[]): TFile[][] {
+		const batches: TFile[][] = [];
+		for (let i = 0; i < images.length; i += IMAGES_PER_CALL) {
+			batches.push(images.slice(i, i + IMAGES_PER_CALL));
+		}
+		return batches;
+	}
+
+	/**
+	 * Replace the # Image Notes section, or insert it above # Transcript (appended if there is none)
+	 */
+	updateSection(content: string, notes: string): string {
+		const section = `# Image Notes\n\n${notes}\n\n`;
+		const sectionRegex = /# Image Notes\s*\n[\s\S]*?(?=\n#|$)/;
+		if (sectionRegex.test(content)) {
+			return content.replace(sectionRegex, section);
+		}
+
+		const transcriptRegex = /(# Transcript\s*\n)/;
+		if (transcriptRegex.test(content)) {
+			return content.replace(transcriptRegex, section + '$1');
+		}
+
+		return content.trimEnd() + `\n\n${section}`;
+	}
+}
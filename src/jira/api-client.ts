@@ -180,6 +180,66 @@ export class JiraApiClient {
 		}));
 	}
 
+	/**
+	 * Account the credentials belong to
+	 * @throws Error with the HTTP status if the request is rejected
+	 */
+	async getCurrentUser(): Promise<{ displayName: string; emailAddress: string }> {
+		const response = await requestUrl({
+			url: `${this.settings.jiraBaseUrl}/rest/api/3/myself`,
+			method: 'GET',
+			headers: {
+				'Authorization': this.getAuthHeader(),
+				'Accept': 'application/json'
+			},
+			throw: false
+		});
+
+		if (response.status !== 200) {
+			throw new Error(`JIRA API error (${response.status})`);
+		}
+
+		return {
+			displayName: response.json.displayName || '',
+			emailAddress: response.json.emailAddress || ''
+		};
+	}
+
+	/**
+	 * Board name and how many sprints are active on it
+	 * @throws Error with the HTTP status if the board can't be read
+	 */
+	async getBoard(boardId: string): Promise<{ name: string; activeSprints: string[] }> {
+		const headers = {
+			'Authorization': this.getAuthHeader(),
+			'Accept': 'application/json'
+		};
+
+		const boardResponse = await requestUrl({
+			url: `${this.settings.jiraBaseUrl}/rest/agile/1.0/board/${boardId}`,
+			method: 'GET',
+			headers,
+			throw: false
+		});
+		if (boardResponse.status !== 200) {
+			throw new Error(`JIRA API error (${boardResponse.status})`);
+		}
+
+		const sprintResponse = await requestUrl({
+			url: `${this.settings.jiraBaseUrl}/rest/agile/1.0/board/${boardId}/sprint?state=active`,
+			method: 'GET',
+			headers,
+			throw: false
+		});
+		// Kanban boards have no sprints and answer 400
+		const sprints = sprintResponse.status === 200 ? (sprintResponse.json.values || []) : [];
+
+		return {
+			name: boardResponse.json.name || boardId,
+			activeSprints: sprints.map((sprint: any) => sprint.name)
+		};
+	}
+
 	/**
 	 * Test JIRA connection
 	 */
@@ -1,4 +1,5 @@
 import { CopilotClientManager } from '../copilot-client';
+import { SkillLoader } from '../skill-loader';
 import { MeetingProcessorSettings } from '../ui/settings-tab';
 import { JiraIssue, groupIssuesByAssignee, JiraIssuesByAssignee } from './client';
 import { JiraFormatter } from './formatter';
@@ -10,12 +11,14 @@ import { JiraApiClient } from './api-client';
 export class JiraManager {
 	private copilotClient: CopilotClientManager;
 	private settings: MeetingProcessorSettings;
+	private skillLoader: SkillLoader;
 	private formatter: JiraFormatter;
 	private apiClient: JiraApiClient;
 
-	constructor(copilotClient: CopilotClientManager, settings: MeetingProcessorSettings) {
+	constructor(copilotClient: CopilotClientManager, settings: MeetingProcessorSettings, skillLoader: SkillLoader) {
 		this.copilotClient = copilotClient;
 		this.settings = settings;
+		this.skillLoader = skillLoader;
 		this.formatter = new JiraFormatter();
 		this.apiClient = new JiraApiClient(settings);
 	}
@@ -44,4 +47,13 @@ export class JiraManager {
 			return `# JIRA\n\n⚠️ Error querying JIRA: ${error.message}\n\nPlease check your JIRA credentials in plugin settings.\n`;
 		}
 	}
+
+	/**
+	 * Query JIRA through the Copilot CLI's Atlassian MCP tools
+	 * @returns The CLI's raw response (a JSON array of issues when the model follows the prompt)
+	 */
+	async queryWithCli(cloudId: string, jql: string): Promise<string> {
+		const prompt = this.skillLoader.renderPrompt('jira-population', 'JIRA Query Prompt', { cloudId, jql });
+		return await this.copilotClient.queryJiraWithCLI(prompt);
+	}
 }
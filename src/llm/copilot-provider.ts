@@ -0,0 +1,58 @@
+import { CopilotClientManager } from '../copilot-client';
+import { LlmProvider, PromptOptions } from './types';
+import { LlmTimeoutError, ProcessingCancelledError } from './errors';
+
+/**
+ * Replies that mean the model never received the image
+ */
+const NO_IMAGE_PATTERN = /(?:can(?:no|')t|unable to|don't) (?:see|view|access|open)|no image|please provide/i;
+
+/**
+ * GitHub Copilot via the SDK, with the CLI as a fallback for vision
+ */
+export class CopilotProvider implements LlmProvider {
+	private copilotClient: CopilotClientManager;
+
+	constructor(copilotClient: CopilotClientManager) {
+		this.copilotClient = copilotClient;
+	}
+
+	getName(): string {
+		return 'GitHub Copilot';
+	}
+
+	async sendPrompt(prompt: string, options: PromptOptions = {}): Promise<string> {
+		return await this.copilotClient.sendPrompt(prompt, undefined, options);
+	}
+
+	/**
+	 * Attach the images through the SDK; if that fails or the model says it
+	 * can't see them, fall back to referencing the files in a CLI prompt
+	 */
+	async analyzeImages(imagePaths: string[], prompt: string, options: PromptOptions = {}): Promise<string> {
+		try {
+			const response = await this.copilotClient.sendVisionPrompt(prompt, imagePaths, options);
+			if (response.trim() && !NO_IMAGE_PATTERN.test(response)) {
+				return response;
+			}
+			console.warn('SDK vision response did not use the images, falling back to CLI:', response.substring(0, 200));
+			options.onFallback?.('success', response);
+		} catch (error) {
+			if (error instanceof ProcessingCancelledError || error instanceof LlmTimeoutError) {
+				throw error;
+			}
+			console.warn('SDK vision failed, falling back to CLI:', error);
+			options.onFallback?.('error', '', error.message);
+		}
+
+		return await this.copilotClient.analyzeImageWithCLI(imagePaths, prompt, options.timeoutMs);
+	}
+
+	cancel(): void {
+		this.copilotClient.cancel();
+	}
+
+	async stop(): Promise<void> {
+		await this.copilotClient.stop();
+	}
+}
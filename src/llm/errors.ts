@@ -0,0 +1,54 @@
+/**
+ * The model did not finish responding in time
+ * Carries whatever partial text arrived, which callers must not save as complete
+ */
+export class LlmTimeoutError extends Error {
+	timeoutMs: number;
+	partialContent: string;
+
+	constructor(timeoutMs: number, partialContent: string = '') {
+		super(`Model did not respond within ${Math.round(timeoutMs / 1000)}s`);
+		this.name = 'LlmTimeoutError';
+		this.timeoutMs = timeoutMs;
+		this.partialContent = partialContent;
+	}
+}
+
+/**
+ * Errors worth retrying: dropped connections, expired sessions, rate limits, 5xx
+ */
+export function isTransientError(error: unknown): boolean {
+	if (error instanceof ProcessingCancelledError) {
+		return false;
+	}
+
+	if (error instanceof LlmTimeoutError) {
+		return true;
+	}
+
+	const message = error instanceof Error ? error.message : String(error);
+	return /ECONNRESET|ETIMEDOUT|EPIPE|socket hang up|session (?:error|not found|expired|closed)|connection (?:closed|disposed|reset)|rate limit|\b429\b|\b50[234]\b/i.test(message);
+}
+
+/**
+ * The user cancelled meeting processing while a request was in flight
+ */
+export class ProcessingCancelledError extends Error {
+	constructor() {
+		super('Meeting processing cancelled');
+		this.name = 'ProcessingCancelledError';
+	}
+}
+
+/**
+ * The model's response wasn't valid JSON for the requested schema, even after repair attempts
+ */
+export class StructuredOutputError extends Error {
+	problems: string[];
+
+	constructor(problems: string[]) {
+		super(`Invalid structured response: ${problems.slice(0, 5).join('; ')}${problems.length > 5 ? ` (+${problems.length - 5} more)` : ''}`);
+		this.name = 'StructuredOutputError';
+		this.problems = problems;
+	}
+}
@@ -0,0 +1,23 @@
+/**
+ * Image types the vision providers accept, by file extension
+ */
+export const IMAGE_MIME_TYPES: Record<string, string> = {
+	png: 'image/png',
+	jpg: 'image/jpeg',
+	jpeg: 'image/jpeg',
+	webp: 'image/webp',
+	gif: 'image/gif'
+};
+
+/**
+ * MIME type for an image path
+ * @throws Error if the extension isn't a supported image type
+ */
+export function getImageMimeType(imagePath: string): string {
+	const extension = imagePath.split('.').pop()?.toLowerCase() || '';
+	const mimeType = IMAGE_MIME_TYPES[extension];
+	if (!mimeType) {
+		throw new Error(`Unsupported image type: .${extension} (supported: ${Object.keys(IMAGE_MIME_TYPES).join(', ')})`);
+	}
+	return mimeType;
+}
@@ -0,0 +1,11 @@
+export type { LlmProvider, LlmProviderId, PromptOptions } from './types';
+export type { MockLlmCall } from './mock-provider';
+export type { StructuredValidator } from './structured';
+export { LlmTimeoutError, ProcessingCancelledError, StructuredOutputError, isTransientError } from './errors';
+export { parseJsonResponse, sendStructuredPrompt, withSchema } from './structured';
+export { IMAGE_MIME_TYPES, getImageMimeType } from './images';
+export { CopilotProvider } from './copilot-provider';
+export { OpenAiCompatibleProvider } from './openai-provider';
+export { MockLlmProvider } from './mock-provider';
+export { LlmProviderManager } from './manager';
+export { PromptCache } from './prompt-cache';
@@ -0,0 +1,228 @@
+import { MeetingProcessorSettings } from '../ui/settings-tab';
+import { CopilotClientManager } from '../copilot-client';
+import { LlmProvider, LlmProviderId, PromptOptions } from './types';
+import { CopilotProvider } from './copilot-provider';
+import { OpenAiCompatibleProvider } from './openai-provider';
+import { MockLlmProvider } from './mock-provider';
+import { isTransientError, ProcessingCancelledError } from './errors';
+import { PromptCache } from './prompt-cache';
+import { UsageLedger, LedgerOutcome, outcomeOf } from '../usage-ledger';
+
+/**
+ * First retry waits this long, doubling for each further attempt
+ */
+const RETRY_BASE_DELAY_MS = 2000;
+
+/**
+ * Routes prompts to the provider selected in settings
+ *
+ * Reads the setting on every call, so switching providers takes effect
+ * without reloading the plugin. Applies the configured timeout to every call
+ * and retries transient failures (including timeouts) with exponential backoff.
+ * Complete prompt responses are cached (unless the caller's shouldCache
+ * rejects them), so reprocessing an unchanged meeting doesn't call the model
+ * again. Every attempt is recorded in the usage ledger.
+ */
+export class LlmProviderManager implements LlmProvider {
+	private settings: MeetingProcessorSettings;
+	private providers: Record<LlmProviderId, LlmProvider>;
+	private cache: PromptCache;
+	private usageLedger: UsageLedger;
+	private cancelGeneration = 0;
+	/** Ends each backoff wait early, so a cancel doesn't sit out the delay */
+	private retryWaits = new Set<() => void>();
+	private forceRegenerate = false;
+
+	constructor(settings: MeetingProcessorSettings, copilotClient: CopilotClientManager, cache: PromptCache, usageLedger: UsageLedger) {
+		this.settings = settings;
+		this.cache = cache;
+		this.usageLedger = usageLedger;
+		this.providers = {
+			copilot: new CopilotProvider(copilotClient),
+			openai: new OpenAiCompatibleProvider(settings),
+			mock: new MockLlmProvider()
+		};
+	}
+
+	/**
+	 * The provider currently selected in settings
+	 */
+	getProvider(): LlmProvider {
+		return this.providers[this.settings.llmProvider as LlmProviderId] || this.providers.copilot;
+	}
+
+	getName(): string {
+		return this.getProvider().getName();
+	}
+
+	/**
+	 * Skip cache lookups (responses are still cached), e.g. for a forced regenerate
+	 */
+	setForceRegenerate(force: boolean): void {
+		this.forceRegenerate = force;
+	}
+
+	async sendPrompt(prompt: string, options: PromptOptions = {}): Promise<string> {
+		// The mock is deterministic and its call log should see every prompt
+		const useCache = this.settings.llmProvider !== 'mock';
+		const providerId = this.settings.llmProvider;
+		const model = this.getModel();
+
+		if (useCache && !this.forceRegenerate) {
+			const cached = await this.cache.get(providerId, model, prompt);
+			// A response cached before the caller's check existed (or the check changed) is asked for again
+			if (cached !== null && options.shouldCache && !options.shouldCache(cached)) {
+				console.log('Ignoring cached response that the caller rejects');
+			} else if (cached !== null) {
+				console.log(`Using cached ${this.getName()} response (${cached.length} chars)`);
+				this.recordCall('prompt', prompt, Date.now(), 'cached', cached);
+				options.onChunk?.(cached);
+				return cached;
+			}
+		}
+
+		const response = await this.withRetries('prompt', prompt, options,
+			attemptOptions => this.getProvider().sendPrompt(prompt, attemptOptions));
+
+		if (useCache && (!options.shouldCache || options.shouldCache(response))) {
+			await this.cache.set(providerId, model, prompt, response);
+		}
+		return response;
+	}
+
+	async analyzeImages(imagePaths: string[], prompt: string, options: PromptOptions = {}): Promise<string> {
+		return await this.withRetries('image', `[images: ${imagePaths.join(', ')}]\n${prompt}`, options,
+			attemptOptions => this.getProvider().analyzeImages(imagePaths, prompt, attemptOptions));
+	}
+
+	/**
+	 * @param kind Call kind for logs and the usage ledger, e.g. "prompt"
+	 * @param prompt Prompt text as recorded in the ledger
+	 */
+	private async withRetries(kind: string, prompt: string, options: PromptOptions, call: (options: PromptOptions) => Promise<string>): Promise<string> {
+		const attemptOptions: PromptOptions = { ...options, timeoutMs: options.timeoutMs ?? this.getTimeoutMs() };
+		const maxRetries = this.getMaxRetries();
+		const generation = this.cancelGeneration;
+
+		for (let attempt = 0; ; attempt++) {
+			const started = Date.now();
+			let response: string;
+
+			// A fallback backend records its own entry, so this one covers only the first backend
+			let fellBack = false;
+			const onFallback = (outcome: LedgerOutcome, partial: string, error?: string) => {
+				fellBack = true;
+				this.recordCall(kind, prompt, started, outcome, partial, error);
+			};
+
+			try {
+				response = await call({ ...attemptOptions, onFallback });
+			} catch (error) {
+				const cancelled = this.cancelGeneration !== generation;
+				if (!fellBack) {
+					this.recordCall(kind, prompt, started, cancelled ? 'cancelled' : outcomeOf(error), '', error.message);
+				}
+
+				if (cancelled) {
+					throw new ProcessingCancelledError();
+				}
+				if (attempt >= maxRetries || !isTransientError(error)) {
+					throw error;
+				}
+
+				const delay = RETRY_BASE_DELAY_MS * Math.pow(2, attempt);
+				console.warn(`${this.getName()} ${kind} failed (attempt ${attempt + 1}/${maxRetries + 1}): ${error.message}. Retrying in ${delay}ms`);
+				options.onRetry?.();
+				await this.waitToRetry(delay);
+
+				// Cancelled while waiting to retry
+				if (this.cancelGeneration !== generation) {
+					throw new ProcessingCancelledError();
+				}
+				continue;
+			}
+
+			if (!fellBack) {
+				this.recordCall(kind, prompt, started, 'success', response);
+			}
+
+			// Cancelled before the provider registered the request
+			if (this.cancelGeneration !== generation) {
+				throw new ProcessingCancelledError();
+			}
+			return response;
+		}
+	}
+
+	/**
+	 * Cancel in-flight requests on every provider; calls already waiting to retry give up
+	 */
+	cancel(): void {
+		this.cancelGeneration++;
+		for (const endWait of Array.from(this.retryWaits)) {
+			endWait();
+		}
+		for (const provider of Object.values(this.providers)) {
+			try {
+				provider.cancel();
+			} catch (error) {
+				console.warn(`Error cancelling ${provider.getName()}:`, error);
+			}
+		}
+	}
+
+	/**
+	 * Wait before a retry; cancel() ends the wait straight away
+	 */
+	private waitToRetry(delay: number): Promise<void> {
+		return new Promise(resolve => {
+			const endWait = () => {
+				clearTimeout(timer);
+				this.retryWaits.delete(endWait);
+				resolve();
+			};
+			const timer = setTimeout(endWait, delay);
+			this.retryWaits.add(endWait);
+		});
+	}
+
+	private recordCall(kind: string, prompt: string, started: number, outcome: LedgerOutcome, response: string, error?: string): void {
+		this.usageLedger.record({
+			timestamp: new Date(started).toISOString(),
+			kind,
+			provider: this.settings.llmProvider,
+			model: this.getModel(),
+			promptChars: prompt.length,
+			responseChars: response.length,
+			durationMs: Date.now() - started,
+			outcome
+		}, { prompt, response, error });
+	}
+
+	/**
+	 * Model the selected provider will use - part of the cache key
+	 */
+	private getModel(): string {
+		return this.settings.llmProvider === 'openai' ? this.settings.llmModel : this.settings.model;
+	}
+
+	private getTimeoutMs(): number {
+		const seconds = parseInt(this.settings.promptTimeoutSeconds, 10);
+		return (isNaN(seconds) || seconds <= 0 ? 120 : seconds) * 1000;
+	}
+
+	private getMaxRetries(): number {
+		const retries = parseInt(this.settings.maxRetries, 10);
+		return isNaN(retries) || retries < 0 ? 2 : retries;
+	}
+
+	async stop(): Promise<void> {
+		for (const provider of Object.values(this.providers)) {
+			try {
+				await provider.stop();
+			} catch (error) {
+				console.warn(`Error stopping ${provider.getName()}:`, error);
+			}
+		}
+	}
+}
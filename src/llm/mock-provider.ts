@@ -0,0 +1,118 @@
+import { LlmProvider, PromptOptions } from './types';
+
+/**
+ * A recorded call to the mock provider
+ */
+export interface MockLlmCall {
+	prompt: string;
+	imagePaths?: string[];
+}
+
+/**
+ * Canned meeting outcomes, valid against MEETING_EXTRACTION_SCHEMA
+ */
+const MOCK_EXTRACTION = {
+	decisions: ['Ship the mock release on Friday'],
+	actionItems: [
+		{ task: 'Write the release notes', owner: null, due: null, jiraKey: null }
+	],
+	risks: ['The mock provider never sees the real meeting'],
+	openQuestions: ['Which model should replace the mock?']
+};
+
+/**
+ * Canned summary for every summary step (standard, transcript, part, merge and combine)
+ */
+const MOCK_SUMMARY = [
+	'**Key Points**',
+	'- Mock summary - no model was called',
+	'',
+	'**Action Items**',
+	'- Write the release notes',
+	'',
+	'**Decisions**',
+	'- Ship the mock release on Friday'
+].join('\n');
+
+/**
+ * Attendee names for SCR-* screenshots, in the comma-separated form the screenshot prompt asks for
+ */
+const MOCK_ATTENDEES = 'Alex Example, Sam Sample';
+
+/**
+ * Deterministic provider for tests and offline runs - never calls a model
+ *
+ * Registered patterns are checked first (first match wins). Otherwise each
+ * step gets a canned response in the shape its caller parses: JSON outcomes
+ * for structured prompts, names for attendee screenshots, one entry per image
+ * for image notes and a fixed markdown summary for everything else.
+ */
+export class MockLlmProvider implements LlmProvider {
+	private responses: { pattern: RegExp; response: string }[] = [];
+	calls: MockLlmCall[] = [];
+
+	getName(): string {
+		return 'Mock (no model)';
+	}
+
+	/**
+	 * Return `response` for every prompt matching `pattern`
+	 */
+	setResponse(pattern: RegExp, response: string): void {
+		this.responses.push({ pattern, response });
+	}
+
+	async sendPrompt(prompt: string, options: PromptOptions = {}): Promise<string> {
+		this.calls.push({ prompt });
+		const response = this.respond(prompt);
+
+		// Stream line by line so callers exercise their streaming path
+		if (options.onChunk) {
+			for (const line of response.split(/(?<=\n)/)) {
+				options.onChunk(line);
+			}
+		}
+
+		return response;
+	}
+
+	async analyzeImages(imagePaths: string[], prompt: string, options: PromptOptions = {}): Promise<string> {
+		this.calls.push({ prompt, imagePaths });
+		const match = this.findResponse(prompt);
+		if (match !== null) {
+			return match;
+		}
+
+		const names = imagePaths.map(path => path.split(/[\\/]/).pop() || path);
+		if (names.every(name => /^SCR-/i.test(name))) {
+			return MOCK_ATTENDEES;
+		}
+		return names.map(name => `**${name}**\n- Mock description - no model was called`).join('\n\n');
+	}
+
+	cancel(): void {
+		// Responses are immediate - nothing in flight
+	}
+
+	async stop(): Promise<void> {
+		// Nothing to release
+	}
+
+	private respond(prompt: string): string {
+		const match = this.findResponse(prompt);
+		if (match !== null) {
+			return match;
+		}
+
+		// withSchema() and the repair prompt both ask for JSON
+		if (/Respond with ONLY a JSON object|did not match the required JSON schema/.test(prompt)) {
+			return JSON.stringify(MOCK_EXTRACTION, null, 2);
+		}
+		return MOCK_SUMMARY;
+	}
+
+	private findResponse(prompt: string): string | null {
+		const match = this.responses.find(r => r.pattern.test(prompt));
+		return match ? match.response : null;
+	}
+}
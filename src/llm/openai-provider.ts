@@ -0,0 +1,121 @@
+import { requestUrl } from 'obsidian';
+import { readFile } from 'fs/promises';
+import { MeetingProcessorSettings } from '../ui/settings-tab';
+import { LlmProvider, PromptOptions } from './types';
+import { LlmTimeoutError, ProcessingCancelledError } from './errors';
+import { getImageMimeType } from './images';
+
+
+/**
+ * Any server exposing the OpenAI chat completions API
+ * (Ollama, llama.cpp server, LM Studio, vLLM, OpenAI itself)
+ */
+export class OpenAiCompatibleProvider implements LlmProvider {
+	private settings: MeetingProcessorSettings;
+	private pendingRejects = new Set<(error: Error) => void>();
+
+	constructor(settings: MeetingProcessorSettings) {
+		this.settings = settings;
+	}
+
+	getName(): string {
+		return `OpenAI-compatible (${this.getEndpoint()})`;
+	}
+
+	async sendPrompt(prompt: string, options: PromptOptions = {}): Promise<string> {
+		// requestUrl can't stream - deliver the whole response as one chunk
+		const response = await this.complete(prompt, options.timeoutMs);
+		options.onChunk?.(response);
+		return response;
+	}
+
+	async analyzeImages(imagePaths: string[], prompt: string, options: PromptOptions = {}): Promise<string> {
+		const imageParts = [];
+		for (const imagePath of imagePaths) {
+			const mimeType = getImageMimeType(imagePath);
+			const data = await readFile(imagePath);
+			imageParts.push({ type: 'image_url', image_url: { url: `data:${mimeType};base64,${data.toString('base64')}` } });
+		}
+
+		// Vision-capable local models (llava, llama3.2-vision, ...) accept OpenAI's image_url parts
+		return await this.complete([
+			{ type: 'text', text: prompt },
+			...imageParts
+		], options.timeoutMs);
+	}
+
+	cancel(): void {
+		// requestUrl can't be aborted - stop waiting for it instead
+		for (const reject of this.pendingRejects) {
+			reject(new ProcessingCancelledError());
+		}
+		this.pendingRejects.clear();
+	}
+
+	async stop(): Promise<void> {
+		this.cancel();
+	}
+
+	private async complete(content: string | object[], timeoutMs?: number): Promise<string> {
+		const url = `${this.getEndpoint()}/chat/completions`;
+		const model = this.settings.llmModel;
+
+		console.log(`Sending prompt to ${url} (model: ${model})`);
+
+		const headers: Record<string, string> = {
+			'Content-Type': 'application/json',
+			'Accept': 'application/json'
+		};
+		if (this.settings.llmApiKey) {
+			headers['Authorization'] = `Bearer ${this.settings.llmApiKey}`;
+		}
+
+		const request = requestUrl({
+			url,
+			method: 'POST',
+			headers,
+			body: JSON.stringify({
+				model,
+				messages: [{ role: 'user', content }],
+				stream: false
+			}),
+			throw: false
+		});
+
+		// requestUrl has no timeout or cancellation of its own
+		let timer: ReturnType<typeof setTimeout> | undefined;
+		let cancel: ((error: Error) => void) | undefined;
+		const waiters: Promise<never>[] = [
+			new Promise<never>((_, reject) => {
+				cancel = reject;
+				this.pendingRejects.add(reject);
+			})
+		];
+		if (timeoutMs) {
+			waiters.push(new Promise<never>((_, reject) => {
+				timer = setTimeout(() => reject(new LlmTimeoutError(timeoutMs)), timeoutMs);
+			}));
+		}
+
+		const response = await Promise.race([request, ...waiters]).finally(() => {
+			clearTimeout(timer);
+			this.pendingRejects.delete(cancel!);
+		});
+
+		if (response.status !== 200) {
+			console.error('LLM endpoint error:', response.status, response.text);
+			throw new Error(`LLM endpoint error (${response.status}): ${response.text}`);
+		}
+
+		const message = response.json?.choices?.[0]?.message?.content;
+		if (typeof message !== 'string') {
+			throw new Error('LLM endpoint returned no message content');
+		}
+
+		return message;
+	}
+
+	private getEndpoint(): string {
+		return (this.settings.llmEndpoint || 'http://localhost:11434/v1').replace(/\/+$/, '');
+	}
+}
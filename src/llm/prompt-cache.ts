@@ -0,0 +1,145 @@
+import { App, normalizePath } from 'obsidian';
+import { createHash } from 'crypto';
+import { MeetingProcessorSettings } from '../ui/settings-tab';
+
+/**
+ * One cached response, stored as <hash>.json in the cache folder
+ */
+interface PromptCacheEntry {
+	provider: string;
+	model: string;
+	created: number;
+	response: string;
+}
+
+/**
+ * Content-addressed cache of model responses
+ *
+ * Entries are keyed on a hash of the provider, model and full prompt text
+ * (template plus input), so any change to the prompt, the transcript or the
+ * model is a miss. Expired entries are ignored on read and pruned, oldest
+ * first, whenever a new entry is written.
+ */
+export class PromptCache {
+	private app: App;
+	private settings: MeetingProcessorSettings;
+	private folder: string;
+
+	/**
+	 * @param folder Vault-relative cache folder, e.g. the plugin's data folder + "/cache"
+	 */
+	constructor(app: App, settings: MeetingProcessorSettings, folder: string) {
+		this.app = app;
+		this.settings = settings;
+		this.folder = normalizePath(folder);
+	}
+
+	/**
+	 * Caching is off when the size setting is 0
+	 */
+	isEnabled(): boolean {
+		return this.getMaxEntries() > 0;
+	}
+
+	/**
+	 * Cached response for this prompt, or null on a miss
+	 */
+	async get(provider: string, model: string, prompt: string): Promise<string | null> {
+		if (!this.isEnabled()) {
+			return null;
+		}
+
+		const path = this.getEntryPath(provider, model, prompt);
+		try {
+			const adapter = this.app.vault.adapter;
+			if (!(await adapter.exists(path))) {
+				return null;
+			}
+
+			const entry: PromptCacheEntry = JSON.parse(await adapter.read(path));
+			if (this.isExpired(entry.created)) {
+				return null;
+			}
+
+			return typeof entry.response === 'string' ? entry.response : null;
+		} catch (error) {
+			console.warn(`Ignoring unreadable prompt cache entry ${path}:`, error);
+			return null;
+		}
+	}
+
+	/**
+	 * Store a complete response (never call this with partial output)
+	 */
+	async set(provider: string, model: string, prompt: string, response: string): Promise<void> {
+		if (!this.isEnabled()) {
+			return;
+		}
+
+		const entry: PromptCacheEntry = { provider, model, created: Date.now(), response };
+
+		try {
+			const adapter = this.app.vault.adapter;
+			if (!(await adapter.exists(this.folder))) {
+				await adapter.mkdir(this.folder);
+			}
+			await adapter.write(this.getEntryPath(provider, model, prompt), JSON.stringify(entry));
+			await this.prune();
+		} catch (error) {
+			console.warn('Failed to write prompt cache entry:', error);
+		}
+	}
+
+	/**
+	 * Delete expired entries, then the oldest ones beyond the size limit
+	 */
+	async prune(): Promise<void> {
+		const adapter = this.app.vault.adapter;
+		if (!(await adapter.exists(this.folder))) {
+			return;
+		}
+
+		const files = (await adapter.list(this.folder)).files.filter(f => f.endsWith('.json'));
+		const entries: { path: string; mtime: number }[] = [];
+		for (const path of files) {
+			const stat = await adapter.stat(path);
+			if (stat) {
+				entries.push({ path, mtime: stat.mtime });
+			}
+		}
+
+		entries.sort((a, b) => b.mtime - a.mtime);
+		const maxEntries = this.getMaxEntries();
+		const stale = entries.filter((entry, i) => i >= maxEntries || this.isExpired(entry.mtime));
+
+		for (const entry of stale) {
+			await adapter.remove(entry.path);
+		}
+
+		if (stale.length > 0) {
+			console.log(`Pruned ${stale.length} prompt cache entries`);
+		}
+	}
+
+	private getEntryPath(provider: string, model: string, prompt: string): string {
+		const hash = createHash('sha256')
+			.update(provider).update('\0')
+			.update(model).update('\0')
+			.update(prompt)
+			.digest('hex');
+		return `${this.folder}/${hash}.json`;
+	}
+
+	private isExpired(created: number): boolean {
+		const days = parseFloat(this.settings.promptCacheExpiryDays);
+		if (isNaN(days) || days <= 0) {
+			return false;
+		}
+		return Date.now() - created > days * 24 * 60 * 60 * 1000;
+	}
+
+	private getMaxEntries(): number {
+		const size = parseInt(this.settings.promptCacheSize, 10);
+		return isNaN(size) || size < 0 ? 200 : size;
+	}
+}
@@ -0,0 +1,115 @@
+import { StructuredOutputError } from './errors';
+
+/**
+ * Checks parsed JSON against the expected shape and returns it typed
+ * Throws StructuredOutputError listing every problem found
+ */
+export type StructuredValidator<T> = (data: unknown) => T;
+
+/**
+ * Repair requests sent after the first invalid response
+ */
+const DEFAULT_MAX_REPAIRS = 2;
+
+/**
+ * Parse JSON from a model response, tolerating the usual wrappers:
+ * code fences, explanation before/after the object and trailing commas
+ * @throws StructuredOutputError if no JSON can be recovered
+ */
+export function parseJsonResponse(response: string): unknown {
+	let text = response.trim();
+
+	const fenced = text.match(/```(?:json)?\s*\n([\s\S]*?)\n\s*```/);
+	if (fenced) {
+		text = fenced[1].trim();
+	}
+
+	// Cut down to the outermost object or array
+	const start = text.search(/[[{]/);
+	const end = Math.max(text.lastIndexOf('}'), text.lastIndexOf(']'));
+	if (start === -1 || end < start) {
+		throw new StructuredOutputError(['Response contains no JSON object']);
+	}
+	text = text.substring(start, end + 1);
+
+	try {
+		return JSON.parse(text);
+	} catch (error) {
+		// Trailing commas are the most common slip - drop them and try once more
+		try {
+			return JSON.parse(text.replace(/,\s*([}\]])/g, '$1'));
+		} catch (e) {
+			throw new StructuredOutputError([`Response is not valid JSON: ${error.message}`]);
+		}
+	}
+}
+
+/**
+ * Send a prompt that must be answered with JSON matching a schema
+ *
+ * The schema is appended to the prompt. Responses that don't parse or fail
+ * validation are sent back to the model with the problems listed, up to
+ * maxRepairs times.
+ * @param send Sends one prompt and returns the raw response. isValid should be
+ * passed on as PromptOptions.shouldCache, so a failed response isn't cached
+ * and replayed on the next run.
+ * @param schema Schema description shown to the model (JSON Schema or an annotated example)
+ * @throws StructuredOutputError if no valid response arrives
+ */
+export async function sendStructuredPrompt<T>(
+	send: (prompt: string, isValid: (response: string) => boolean) => Promise<string>,
+	prompt: string,
+	schema: string,
+	validate: StructuredValidator<T>,
+	maxRepairs: number = DEFAULT_MAX_REPAIRS
+): Promise<T> {
+	const isValid = (candidate: string): boolean => {
+		try {
+			validate(parseJsonResponse(candidate));
+			return true;
+		} catch (e) {
+			return false;
+		}
+	};
+
+	let response = await send(withSchema(prompt, schema), isValid);
+
+	for (let attempt = 0; ; attempt++) {
+		try {
+			return validate(parseJsonResponse(response));
+		} catch (error) {
+			if (!(error instanceof StructuredOutputError) || attempt >= maxRepairs) {
+				throw error;
+			}
+
+			console.warn(`Structured response invalid (repair ${attempt + 1}/${maxRepairs}):`, error.problems);
+			response = await send(buildRepairPrompt(response, error.problems, schema), isValid);
+		}
+	}
+}
+
+/**
+ * The first prompt sendStructuredPrompt sends: the prompt with the schema appended
+ */
+export function withSchema(prompt: string, schema: string): string {
+	return `${prompt}
+
+Respond with ONLY a JSON object matching this schema - no explanation, markdown or code fences:
+
+${schema}`;
+}
+
+function buildRepairPrompt(response: string, problems: string[], schema: string): string {
+	return `Your previous response did not match the required JSON schema.
+
+Problems:
+${problems.map(p => `- ${p}`).join('\n')}
+
+Previous response:
+
+${response}
+
+Return the corrected data as ONLY a JSON object matching this schema - no explanation, markdown or code fences:
+
+${schema}`;
+}
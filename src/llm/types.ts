@@ -0,0 +1,71 @@
+import { LedgerOutcome } from '../usage-ledger';
+
+/**
+ * Per-call options for sendPrompt
+ */
+export interface PromptOptions {
+	/**
+	 * Receives the response text as it streams in. Providers that can't
+	 * stream call it once with the whole response.
+	 */
+	onChunk?: (chunk: string) => void;
+
+	/**
+	 * Called before a retry, so streamed partial text can be discarded
+	 */
+	onRetry?: () => void;
+
+	/**
+	 * Give up after this long (defaults to the Prompt Timeout setting)
+	 */
+	timeoutMs?: number;
+
+	/**
+	 * Whether a response may be stored in (or served from) the prompt cache,
+	 * e.g. only once it validates. Defaults to every response.
+	 */
+	shouldCache?: (response: string) => boolean;
+
+	/**
+	 * Called when a provider gives up on its first backend and falls back to
+	 * one that records its own usage ledger entry (e.g. the Copilot CLI for
+	 * images), with the first backend's response or error
+	 */
+	onFallback?: (outcome: LedgerOutcome, response: string, error?: string) => void;
+}
+
+/**
+ * A language model backend the meeting handlers can send prompts to
+ */
+export interface LlmProvider {
+	/**
+	 * Display name, e.g. for logs and notices
+	 */
+	getName(): string;
+
+	/**
+	 * Send a prompt and wait for the complete response
+	 */
+	sendPrompt(prompt: string, options?: PromptOptions): Promise<string>;
+
+	/**
+	 * Ask a question about one or more image files (absolute filesystem paths)
+	 * Supports png, jpg, webp and gif
+	 */
+	analyzeImages(imagePaths: string[], prompt: string, options?: PromptOptions): Promise<string>;
+
+	/**
+	 * Abort every in-flight request; each one rejects with ProcessingCancelledError
+	 */
+	cancel(): void;
+
+	/**
+	 * Release any clients, sessions or processes
+	 */
+	stop(): Promise<void>;
+}
+
+/**
+ * Provider ids stored in settings
+ */
+export type LlmProviderId = 'copilot' | 'openai' | 'mock';
@@ -0,0 +1,274 @@
+import { LlmProvider, PromptOptions, StructuredOutputError, sendStructuredPrompt } from './llm';
+import { PeopleManager } from './people-manager';
+import { SkillLoader } from './skill-loader';
+import { MeetingProcessorSettings } from './ui/settings-tab';
+
+/**
+ * An action item extracted from a meeting
+ */
+export interface ActionItem {
+	task: string;
+	owner: string | null;
+	/** ISO date (YYYY-MM-DD) */
+	due: string | null;
+	/** Linked JIRA issue, e.g. "GLCP-123" */
+	jiraKey: string | null;
+}
+
+/**
+ * Machine-readable meeting outcomes
+ */
+export interface MeetingExtraction {
+	decisions: string[];
+	actionItems: ActionItem[];
+	risks: string[];
+	openQuestions: string[];
+}
+
+/**
+ * Schema shown to the model - an annotated example is followed more reliably than JSON Schema
+ */
+export const MEETING_EXTRACTION_SCHEMA = `{
+  "decisions": ["string - one decision that was agreed"],
+  "actionItems": [
+    {
+      "task": "string - what needs to be done",
+      "owner": "string - full name of the person responsible, or null",
+      "due": "string - due date as YYYY-MM-DD, or null",
+      "jiraKey": "string - JIRA issue key such as ABC-123 if one was mentioned, or null"
+    }
+  ],
+  "risks": ["string - one risk or blocker"],
+  "openQuestions": ["string - one unresolved question"]
+}`;
+
+const JIRA_KEY_PATTERN = /^[A-Z][A-Z0-9]+-\d+$/;
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Validate parsed JSON as a MeetingExtraction
+ * Missing lists become empty and empty strings become null; anything else wrong is reported
+ * @throws StructuredOutputError listing every problem
+ */
+export function validateMeetingExtraction(data: unknown): MeetingExtraction {
+	const problems: string[] = [];
+
+	if (!data || typeof data !== 'object' || Array.isArray(data)) {
+		throw new StructuredOutputError(['Expected a JSON object with decisions, actionItems, risks and openQuestions']);
+	}
+
+	const record = data as Record<string, unknown>;
+
+	const stringList = (field: string): string[] => {
+		const value = record[field];
+		if (value === undefined || value === null) {
+			return [];
+		}
+		if (!Array.isArray(value)) {
+			problems.push(`"${field}" must be an array of strings`);
+			return [];
+		}
+		return value.filter((item, i) => {
+			if (typeof item !== 'string') {
+				problems.push(`"${field}[${i}]" must be a string`);
+				return false;
+			}
+			return item.trim().length > 0;
+		}).map(item => item.trim());
+	};
+
+	const optionalString = (item: Record<string, unknown>, field: string, path: string): string | null => {
+		const value = item[field];
+		if (value === undefined || value === null || value === '') {
+			return null;
+		}
+		if (typeof value !== 'string') {
+			problems.push(`"${path}.${field}" must be a string or null`);
+			return null;
+		}
+		return value.trim() || null;
+	};
+
+	const actionItems: ActionItem[] = [];
+	const rawItems = record.actionItems ?? [];
+	if (!Array.isArray(rawItems)) {
+		problems.push('"actionItems" must be an array of objects');
+	} else {
+		rawItems.forEach((raw, i) => {
+			const path = `actionItems[${i}]`;
+			if (!raw || typeof raw !== 'object') {
+				problems.push(`"${path}" must be an object`);
+				return;
+			}
+
+			const item = raw as Record<string, unknown>;
+			const task = optionalString(item, 'task', path);
+			if (!task) {
+				problems.push(`"${path}.task" is required`);
+				return;
+			}
+
+			const due = optionalString(item, 'due', path);
+			if (due && !ISO_DATE_PATTERN.test(due)) {
+				problems.push(`"${path}.due" must be YYYY-MM-DD or null (got "${due}")`);
+			}
+
+			const jiraKey = optionalString(item, 'jiraKey', path)?.toUpperCase() || null;
+			if (jiraKey && !JIRA_KEY_PATTERN.test(jiraKey)) {
+				problems.push(`"${path}.jiraKey" must look like ABC-123 or be null (got "${jiraKey}")`);
+			}
+
+			actionItems.push({
+				task,
+				owner: optionalString(item, 'owner', path),
+				due,
+				jiraKey
+			});
+		});
+	}
+
+	const extraction: MeetingExtraction = {
+		decisions: stringList('decisions'),
+		actionItems,
+		risks: stringList('risks'),
+		openQuestions: stringList('openQuestions')
+	};
+
+	if (problems.length > 0) {
+		throw new StructuredOutputError(problems);
+	}
+
+	return extraction;
+}
+
+/**
+ * Extracts decisions, action items, risks and open questions as validated JSON
+ * and renders them into a # Meeting Outcomes section
+ */
+export class MeetingExtractor {
+	private settings: MeetingProcessorSettings;
+	private llm: LlmProvider;
+	private peopleManager: PeopleManager;
+	private skillLoader: SkillLoader;
+
+	constructor(settings: MeetingProcessorSettings, llm: LlmProvider, peopleManager: PeopleManager, skillLoader: SkillLoader) {
+		this.settings = settings;
+		this.llm = llm;
+		this.peopleManager = peopleManager;
+		this.skillLoader = skillLoader;
+	}
+
+	/**
+	 * Ask the model for structured outcomes of a meeting
+	 * @throws StructuredOutputError if the model never returns valid JSON
+	 */
+	async extract(meetingContent: string, options: PromptOptions = {}): Promise<MeetingExtraction> {
+		const extraction = await sendStructuredPrompt(
+			(attemptPrompt, isValid) => this.llm.sendPrompt(attemptPrompt, { ...options, shouldCache: isValid }),
+			this.buildPrompt(meetingContent),
+			MEETING_EXTRACTION_SCHEMA,
+			validateMeetingExtraction
+		);
+
+		console.log(`Extracted ${extraction.decisions.length} decisions, ${extraction.actionItems.length} action items, ${extraction.risks.length} risks, ${extraction.openQuestions.length} open questions`);
+		return extraction;
+	}
+
+	/**
+	 * Extraction prompt for some meeting content (the schema is appended when it's sent)
+	 */
+	buildPrompt(meetingContent: string): string {
+		return this.skillLoader.renderPrompt('meeting-outcomes', 'Extraction Prompt', { content: meetingContent });
+	}
+
+	/**
+	 * Render as a "# Meeting Outcomes" section (without trailing blank lines)
+	 * Owners with People profiles are linked; JIRA keys link to the configured JIRA site
+	 */
+	async render(extraction: MeetingExtraction): Promise<string> {
+		const lines: string[] = ['# Meeting Outcomes', ''];
+
+		const addList = (label: string, items: string[]) => {
+			lines.push(`**${label}**`, '');
+			lines.push(...(items.length > 0 ? items.map(item => `- ${item}`) : ['- None']));
+			lines.push('');
+		};
+
+		addList('Decisions', extraction.decisions);
+
+		lines.push('**Action Items**', '');
+		if (extraction.actionItems.length === 0) {
+			lines.push('- None');
+		}
+		for (const item of extraction.actionItems) {
+			let line = `- [ ] ${item.task}`;
+			if (item.owner) {
+				line += ` - ${await this.linkOwner(item.owner)}`;
+			}
+			if (item.due) {
+				line += ` 📅 ${item.due}`;
+			}
+			if (item.jiraKey) {
+				line += ` ${this.linkJiraKey(item.jiraKey)}`;
+			}
+			lines.push(line);
+		}
+		lines.push('');
+
+		addList('Risks', extraction.risks);
+		addList('Open Questions', extraction.openQuestions);
+
+		return lines.join('\n').trimEnd();
+	}
+
+	/**
+	 * Pick what to extract from: the summary sections, plus the transcript when it fits in one prompt
+	 * Returns null if the note has neither
+	 */
+	selectSource(noteContent: string): string | null {
+		const parts: string[] = [];
+
+		for (const heading of ['Unified Summary', 'Summary', 'Copilot Summary']) {
+			const match = noteContent.match(new RegExp(`# ${heading}\\s*\\n([\\s\\S]*?)(?=\\n#|$)`));
+			if (match && match[1].trim()) {
+				parts.push(`${heading}:\n${match[1].trim()}`);
+			}
+		}
+
+		const transcriptMatch = noteContent.match(/# Transcript\s*\n([\s\S]*?)(?=\n#|$)/);
+		const transcript = transcriptMatch ? transcriptMatch[1].trim() : '';
+		const maxChars = parseInt(this.settings.summaryChunkSize, 10) || 20000;
+		if (transcript && transcript.length <= maxChars) {
+			parts.push(`Transcript:\n${transcript}`);
+		}
+
+		return parts.length > 0 ? parts.join('\n\n') : null;
+	}
+
+	/**
+	 * Replace the # Meeting Outcomes section, or insert it after the summary (appended if there is none)
+	 */
+	updateSection(noteContent: string, section: string): string {
+		const outcomesRegex = /# Meeting Outcomes\s*\n[\s\S]*?(?=\n#|$)/;
+		if (outcomesRegex.test(noteContent)) {
+			return noteContent.replace(outcomesRegex, `${section}\n\n`);
+		}
+
+		const summaryRegex = /# (?:Unified )?Summary\s*\n[\s\S]*?(?=\n#|$)/;
+		if (summaryRegex.test(noteContent)) {
+			return noteContent.replace(summaryRegex, match => `${match.trimEnd()}\n\n${section}\n`);
+		}
+
+		return noteContent.trimEnd() + `\n\n${section}\n`;
+	}
+
+	private async linkOwner(owner: string): Promise<string> {
+		const profile = await this.peopleManager.resolveSpeaker(owner);
+		return profile.exists ? this.peopleManager.generateLink(profile) : owner;
+	}
+
+	private linkJiraKey(key: string): string {
+		const baseUrl = this.settings.jiraBaseUrl.replace(/\/+$/, '');
+		return baseUrl ? `[${key}](${baseUrl}/browse/${key})` : key;
+	}
+}
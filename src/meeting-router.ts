@@ -1,48 +1,109 @@
 import { App, TFile } from 'obsidian';
 import { MeetingProcessorSettings } from './ui/settings-tab';
 import { CopilotClientManager } from './copilot-client';
-import { detectMeetingType } from './validators';
+import { LlmProvider } from './llm';
+import { detectMeetingType, getDeclaredMeetingType } from './validators';
 import { GeneralMeetingHandler } from './handlers/general';
 import { StandupMeetingHandler } from './handlers/standup';
 import { SkillLoader } from './skill-loader';
 import { StatusBarManager } from './ui/status-bar';
+import { UsageLedger } from './usage-ledger';
+import { DebugRunLog } from './debug-log';
+import { MeetingTypeDefinition, GENERAL_MEETING_TYPE, STANDUP_MEETING_TYPE, matchesMeetingType } from './meeting-types';
 
 /**
  * Routes meeting files to the appropriate handler
+ *
+ * A type named in the note's frontmatter wins. Otherwise meeting types
+ * declared in skill files are checked first and run by the general handler
+ * with their own steps and prompts; then standups; anything else is a
+ * general meeting.
  */
 export class MeetingRouter {
 	private app: App;
 	private settings: MeetingProcessorSettings;
 	private copilotClient: CopilotClientManager;
+	private llm: LlmProvider;
 	private skillLoader: SkillLoader;
 	private statusBar: StatusBarManager;
+	private usageLedger: UsageLedger;
+	private debugLog: DebugRunLog;
 	private generalHandler: GeneralMeetingHandler;
 	private standupHandler: StandupMeetingHandler;
 
-	constructor(app: App, settings: MeetingProcessorSettings, copilotClient: CopilotClientManager, skillLoader: SkillLoader, statusBar: StatusBarManager) {
+	constructor(app: App, settings: MeetingProcessorSettings, copilotClient: CopilotClientManager, llm: LlmProvider, skillLoader: SkillLoader, statusBar: StatusBarManager, usageLedger: UsageLedger, debugLog: DebugRunLog) {
 		this.app = app;
 		this.settings = settings;
 		this.copilotClient = copilotClient;
+		this.llm = llm;
 		this.skillLoader = skillLoader;
 		this.statusBar = statusBar;
+		this.usageLedger = usageLedger;
+		this.debugLog = debugLog;
 		
 		// Initialize handlers
-		this.generalHandler = new GeneralMeetingHandler(app, settings, copilotClient, skillLoader, statusBar);
-		this.standupHandler = new StandupMeetingHandler(app, settings, copilotClient, skillLoader, statusBar);
+		this.generalHandler = new GeneralMeetingHandler(app, settings, llm, skillLoader, statusBar, usageLedger, debugLog);
+		this.standupHandler = new StandupMeetingHandler(app, settings, copilotClient, llm, skillLoader, statusBar, usageLedger, debugLog);
 	}
 
 	/**
 	 * Process a meeting file
+	 * @param signal Aborted when the user cancels processing
 	 */
-	async process(file: TFile): Promise<void> {
-		const meetingType = detectMeetingType(file, this.settings);
+	async process(file: TFile, signal?: AbortSignal): Promise<void> {
+		const meetingType = this.getMeetingType(file);
 		
-		console.log(`Processing ${meetingType} meeting: ${file.basename}`);
+		console.log(`Processing ${meetingType.id} meeting: ${file.basename}`);
+		this.usageLedger.startRun(file.path, meetingType.id);
+		this.debugLog.startRun(file, meetingType.id, this.skillLoader.getAllSkills());
 
-		if (meetingType === 'standup') {
-			await this.standupHandler.process(file);
-		} else {
-			await this.generalHandler.process(file);
+		let failure: Error | null = null;
+		try {
+			if (meetingType === STANDUP_MEETING_TYPE) {
+				await this.standupHandler.process(file, signal);
+			} else {
+				await this.generalHandler.process(file, signal, meetingType);
+			}
+		} catch (error) {
+			failure = error;
+			throw error;
+		} finally {
+			this.usageLedger.endRun();
+			await this.debugLog.finishRun(failure);
 		}
 	}
+
+	/**
+	 * The meeting type a note will be processed as
+	 */
+	getMeetingType(file: TFile): MeetingTypeDefinition {
+		// An explicit meeting-type (or meeting/<type> tag) beats every match rule
+		const meetingTypes = [STANDUP_MEETING_TYPE, GENERAL_MEETING_TYPE, ...this.skillLoader.getMeetingTypes()];
+		const declared = getDeclaredMeetingType(file, this.app, meetingTypes.map(definition => definition.id));
+		const declaredType = meetingTypes.find(definition => definition.id === declared);
+		if (declaredType) {
+			console.log(`Meeting type "${declared}" set in frontmatter`);
+			return declaredType;
+		}
+
+		const customType = this.findCustomMeetingType(file);
+		if (customType) {
+			return customType;
+		}
+		return detectMeetingType(file, this.app, this.settings) === 'standup' ? STANDUP_MEETING_TYPE : GENERAL_MEETING_TYPE;
+	}
+
+	/**
+	 * First meeting type declared in a skill whose match rules fit the note
+	 */
+	private findCustomMeetingType(file: TFile): MeetingTypeDefinition | null {
+		const frontmatterType = this.app.metadataCache.getFileCache(file)?.frontmatter?.type;
+		for (const definition of this.skillLoader.getMeetingTypes()) {
+			if (matchesMeetingType(definition, file, frontmatterType)) {
+				console.log(`Matched meeting type "${definition.id}" from skill ${definition.skill}`);
+				return definition;
+			}
+		}
+		return null;
+	}
 }
@@ -0,0 +1,198 @@
+import { TFile, parseYaml } from 'obsidian';
+
+/**
+ * Steps a configurable meeting type can run, in pipeline order
+ */
+export const PIPELINE_STEPS = ['attendees', 'transcript', 'images', 'summary', 'outcomes'] as const;
+
+export type PipelineStep = typeof PIPELINE_STEPS[number];
+
+/**
+ * A prompt section in a skill file
+ */
+export interface PromptRef {
+	skill: string;
+	section: string;
+}
+
+/**
+ * A kind of meeting and how to process it
+ */
+export interface MeetingTypeDefinition {
+	/** Used in the usage ledger and debug logs, e.g. "retro" */
+	id: string;
+	name: string;
+	/** Skill file that declared the type ("general-meeting" for the built-in type) */
+	skill: string;
+	match: {
+		/** Case-insensitive substrings of the file name */
+		keywords: string[];
+		/** Values of the frontmatter "type" field */
+		types: string[];
+		/** Folders the note may be in (subfolders included) */
+		folders: string[];
+	};
+	steps: PipelineStep[];
+	prompts: {
+		/** Summary from a single source (Copilot Summary or transcript) */
+		summary: PromptRef;
+		/** Instructions for the transcript summary when there's also a Copilot Summary */
+		transcriptSummary: PromptRef;
+		/** Merges the Copilot Summary and transcript summary */
+		combineSummaries: PromptRef;
+	};
+}
+
+/**
+ * How general meetings have always been processed - also the defaults for user-defined types
+ */
+export const GENERAL_MEETING_TYPE: MeetingTypeDefinition = {
+	id: 'general',
+	name: 'General Meeting',
+	skill: 'general-meeting',
+	match: { keywords: [], types: [], folders: [] },
+	steps: [...PIPELINE_STEPS],
+	prompts: {
+		summary: { skill: 'summary-generation', section: 'General Summary Prompt' },
+		transcriptSummary: { skill: 'general-meeting', section: 'Transcript Summary Prompt' },
+		combineSummaries: { skill: 'general-meeting', section: 'Combine Summaries Prompt' }
+	}
+};
+
+/**
+ * Post-meeting standup processing (the standup handler also queries JIRA)
+ */
+export const STANDUP_MEETING_TYPE: MeetingTypeDefinition = {
+	id: 'standup',
+	name: 'Standup Meeting',
+	skill: 'standup-meeting',
+	match: { keywords: [], types: [], folders: [] },
+	steps: [...PIPELINE_STEPS],
+	prompts: {
+		summary: { skill: 'summary-generation', section: 'Standup Summary Prompt' },
+		transcriptSummary: { skill: 'standup-meeting', section: 'Transcript Summary Prompt' },
+		combineSummaries: { skill: 'standup-meeting', section: 'Combine Summaries Prompt' }
+	}
+};
+
+/**
+ * Ids handled by the built-in handlers
+ */
+const RESERVED_IDS = ['general', 'standup'];
+
+/**
+ * Parse the "## Meeting Type" section of a skill (a YAML block)
+ * @param sections All sections of the skill, to check prompt references against
+ * @returns The definition (null if unusable) and any problems found
+ */
+export function parseMeetingType(skillName: string, yamlText: string, sections: Map<string, string>): { definition: MeetingTypeDefinition | null; problems: string[] } {
+	const problems: string[] = [];
+
+	let data: any;
+	try {
+		data = parseYaml(yamlText);
+	} catch (error) {
+		return { definition: null, problems: [`Meeting Type is not valid YAML: ${error.message}`] };
+	}
+	if (!data || typeof data !== 'object' || Array.isArray(data)) {
+		return { definition: null, problems: ['Meeting Type must be a YAML mapping with id, match and steps'] };
+	}
+
+	const id = typeof data.id === 'string' && data.id.trim() ? data.id.trim().toLowerCase() : skillName;
+	if (RESERVED_IDS.includes(id)) {
+		return { definition: null, problems: [`Meeting type id "${id}" is built in - override the ${id}-meeting skill's prompts instead`] };
+	}
+
+	const stringList = (value: unknown, field: string): string[] => {
+		if (value === undefined || value === null) {
+			return [];
+		}
+		const list = Array.isArray(value) ? value : [value];
+		if (list.some(item => typeof item !== 'string' && typeof item !== 'number')) {
+			problems.push(`"${field}" must be a string or a list of strings`);
+		}
+		return list.filter(item => typeof item === 'string' || typeof item === 'number').map(item => String(item).trim()).filter(item => item.length > 0);
+	};
+
+	const match = data.match || {};
+	const definition: MeetingTypeDefinition = {
+		id,
+		name: typeof data.name === 'string' && data.name.trim() ? data.name.trim() : id,
+		skill: skillName,
+		match: {
+			keywords: stringList(match.keywords, 'match.keywords'),
+			types: stringList(match.type, 'match.type'),
+			folders: stringList(match.folder, 'match.folder').map(folder => folder.replace(/^\/+|\/+$/g, ''))
+		},
+		steps: [],
+		prompts: { ...GENERAL_MEETING_TYPE.prompts }
+	};
+
+	if (definition.match.keywords.length + definition.match.types.length + definition.match.folders.length === 0) {
+		problems.push('Meeting Type has no match rules (match.keywords, match.type or match.folder) - it will never be used');
+		return { definition: null, problems };
+	}
+
+	const steps = data.steps === undefined ? [...PIPELINE_STEPS] : stringList(data.steps, 'steps');
+	for (const step of steps) {
+		if ((PIPELINE_STEPS as readonly string[]).includes(step)) {
+			definition.steps.push(step as PipelineStep);
+		} else {
+			problems.push(`Unknown step "${step}" (expected ${PIPELINE_STEPS.join(', ')})`);
+		}
+	}
+	// Always run in pipeline order, whatever order they were listed in
+	definition.steps.sort((a, b) => PIPELINE_STEPS.indexOf(a) - PIPELINE_STEPS.indexOf(b));
+
+	const prompts = data.prompts || {};
+	for (const key of Object.keys(prompts)) {
+		if (!(key in definition.prompts)) {
+			problems.push(`Unknown prompt "${key}" (expected ${Object.keys(definition.prompts).join(', ')})`);
+			continue;
+		}
+		if (typeof prompts[key] !== 'string') {
+			problems.push(`Prompt "${key}" must be a section name`);
+			continue;
+		}
+
+		const ref = parsePromptRef(prompts[key], skillName);
+		if (ref.skill === skillName && !sections.has(ref.section)) {
+			problems.push(`Prompt "${key}" refers to a missing section "${ref.section}"`);
+			continue;
+		}
+		definition.prompts[key as keyof MeetingTypeDefinition['prompts']] = ref;
+	}
+
+	return { definition, problems };
+}
+
+/**
+ * "Section Name" (in the same skill) or "other-skill#Section Name"
+ */
+function parsePromptRef(value: string, skillName: string): PromptRef {
+	const hash = value.indexOf('#');
+	if (hash > 0) {
+		return { skill: value.substring(0, hash).trim(), section: value.substring(hash + 1).trim() };
+	}
+	return { skill: skillName, section: value.trim() };
+}
+
+/**
+ * Whether a note matches any of a meeting type's rules
+ * @param frontmatterType Value of the note's "type" frontmatter field, if any
+ */
+export function matchesMeetingType(definition: MeetingTypeDefinition, file: TFile, frontmatterType: unknown): boolean {
+	const filename = file.basename.toLowerCase();
+	if (definition.match.keywords.some(keyword => filename.includes(keyword.toLowerCase()))) {
+		return true;
+	}
+
+	const types = (Array.isArray(frontmatterType) ? frontmatterType : [frontmatterType])
+		.filter(type => typeof type === 'string')
+		.map((type: string) => type.trim().toLowerCase());
+	if (definition.match.types.some(type => types.includes(type.toLowerCase()))) {
+		return true;
+	}
+
+	return definition.match.folders.some(folder => file.path.startsWith(`${folder}/`));
+}
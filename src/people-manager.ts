@@ -1,4 +1,5 @@
 import { App, TFile, TFolder } from 'obsidian';
+import { SpeakerEntry } from './transcript';
 
 export interface PersonProfile {
 	file: TFile | null;
@@ -8,6 +9,11 @@ export interface PersonProfile {
 	exists: boolean;
 }
 
+/**
+ * Minimum fuzzy score for a speaker label to be linked to a profile
+ */
+const FUZZY_MATCH_THRESHOLD = 0.6;
+
 /**
  * Manages People profiles in the vault
  */
@@ -76,11 +82,10 @@ export class PeopleManager {
 		const peopleFiles = allFiles.filter(f => f.path.startsWith(this.peopleFolder + '/'));
 		
 		for (const f of peopleFiles) {
-			const metadata = this.app.metadataCache.getFileCache(f);
-			const aliases = metadata?.frontmatter?.aliases || [];
+			const aliases = this.getAliases(f);
 			
 			// Check if any alias matches the full name
-			if (aliases.some((alias: string) => 
+			if (aliases.some(alias => 
 				alias.toLowerCase() === fullName.toLowerCase() ||
 				alias.toLowerCase() === `${firstName} ${lastName}`.toLowerCase()
 			)) {
@@ -189,4 +194,219 @@ tags:
 		
 		return `[[${this.peopleFolder}/${fileName}|${displayName}]]`;
 	}
+
+	/**
+	 * Strip meeting-tool decorations from a transcript speaker label
+	 * "Tronkowski, Kevin (HPE)" -> "Tronkowski, Kevin"
+	 * "[[People/Doe, Jane|Jane Doe]]" -> "Jane Doe" (already linked on a previous run)
+	 */
+	cleanSpeakerLabel(label: string): string {
+		let name = label.trim();
+
+		const linkMatch = name.match(/^\[\[([^\]|]+)(?:\|([^\]]+))?\]\]$/);
+		if (linkMatch) {
+			name = linkMatch[2] || linkMatch[1].split('/').pop() || linkMatch[1];
+		}
+
+		return name
+			.replace(/\([^)]*\)|\[[^\]]*\]|<[^>]*>/g, '')
+			.replace(/\s+/g, ' ')
+			.trim();
+	}
+
+	/**
+	 * Resolve a transcript speaker label to a People profile
+	 * Tries the exact filename/alias lookup first, then a fuzzy match
+	 * ("Kevin T." -> "Tronkowski, Kevin"). Never creates profiles.
+	 */
+	async resolveSpeaker(label: string): Promise<PersonProfile> {
+		const name = this.cleanSpeakerLabel(label);
+		const unresolved: PersonProfile = {
+			file: null,
+			displayName: label,
+			firstName: name,
+			lastName: '',
+			exists: false
+		};
+
+		// Skip generic speaker labels
+		if (!name || /^(Speaker\s+\d+|Unknown Speaker)$/i.test(name)) {
+			return unresolved;
+		}
+
+		const exact = await this.findProfile(name);
+		if (exact.exists) {
+			return exact;
+		}
+
+		return this.findProfileFuzzy(name) || unresolved;
+	}
+
+	/**
+	 * Replace speaker labels with wiki links to their People profiles
+	 * Speakers without a matching profile keep their original label
+	 */
+	async linkSpeakers(entries: SpeakerEntry[]): Promise<SpeakerEntry[]> {
+		const links = new Map<string, string>();
+
+		for (const entry of entries) {
+			if (links.has(entry.speaker)) {
+				continue;
+			}
+
+			const profile = await this.resolveSpeaker(entry.speaker);
+			if (profile.exists && profile.file) {
+				console.log(`Linked speaker "${entry.speaker}" to ${profile.file.path}`);
+				links.set(entry.speaker, this.generateLink(profile));
+			} else {
+				links.set(entry.speaker, entry.speaker);
+			}
+		}
+
+		return entries.map(entry => ({ ...entry, speaker: links.get(entry.speaker) || entry.speaker }));
+	}
+
+	/**
+	 * A profile's aliases - frontmatter allows a single string or a list, and lists can hold non-strings
+	 */
+	private getAliases(file: TFile): string[] {
+		const rawAliases = this.app.metadataCache.getFileCache(file)?.frontmatter?.aliases || [];
+		return (Array.isArray(rawAliases) ? rawAliases : [rawAliases])
+			.filter((alias: unknown): alias is string => typeof alias === 'string');
+	}
+
+	/**
+	 * Fuzzy-match a name against every profile's filename and aliases
+	 * Returns null when nothing scores high enough or the best score is shared
+	 */
+	private findProfileFuzzy(name: string): PersonProfile | null {
+		const target = this.nameTokens(name);
+		if (target.length === 0) {
+			return null;
+		}
+
+		const peopleFiles = this.app.vault.getMarkdownFiles()
+			.filter(f => f.path.startsWith(this.peopleFolder + '/'));
+
+		let bestScore = 0;
+		let matches: TFile[] = [];
+
+		for (const f of peopleFiles) {
+			const aliases = this.getAliases(f);
+
+			const score = Math.max(
+				...[f.basename, ...aliases].map(candidate => this.scoreNameMatch(target, this.nameTokens(candidate)))
+			);
+
+			if (score > bestScore) {
+				bestScore = score;
+				matches = [f];
+			} else if (score === bestScore && score > 0) {
+				matches.push(f);
+			}
+		}
+
+		if (bestScore < FUZZY_MATCH_THRESHOLD) {
+			return null;
+		}
+
+		if (matches.length > 1) {
+			console.log(`Speaker "${name}" matches several profiles, leaving unlinked: ${matches.map(f => f.basename).join(', ')}`);
+			return null;
+		}
+
+		const { firstName, lastName } = this.parseName(matches[0].basename);
+		return {
+			file: matches[0],
+			displayName: name,
+			firstName,
+			lastName,
+			exists: true
+		};
+	}
+
+	/**
+	 * Lowercase "first ... last" tokens: "Tronkowski, Kevin" -> ["kevin", "tronkowski"]
+	 */
+	private nameTokens(name: string): string[] {
+		const { firstName, lastName } = this.parseName(this.cleanSpeakerLabel(name));
+
+		return `${firstName} ${lastName}`
+			.toLowerCase()
+			.replace(/[^a-z0-9\s'-]/g, ' ')
+			.split(/\s+/)
+			.filter(t => t.length > 0);
+	}
+
+	/**
+	 * Score how well a speaker name matches a profile name (0 = no match, 1 = exact)
+	 * - First names must match (allowing "Dan"/"Daniel" and one-letter typos)
+	 * - Last names may be an initial ("Kevin T.") or have small typos
+	 * - A bare first name scores just at the threshold, so it only links when unique
+	 */
+	private scoreNameMatch(speaker: string[], profile: string[]): number {
+		if (speaker.length === 0 || profile.length === 0) {
+			return 0;
+		}
+
+		const speakerFirst = speaker[0];
+		const profileFirst = profile[0];
+
+		let firstScore = 0;
+		if (speakerFirst === profileFirst) {
+			firstScore = 1;
+		} else if (Math.min(speakerFirst.length, profileFirst.length) >= 3 &&
+			(speakerFirst.startsWith(profileFirst) || profileFirst.startsWith(speakerFirst))) {
+			firstScore = 0.9;
+		} else if (Math.min(speakerFirst.length, profileFirst.length) >= 5 && this.editDistance(speakerFirst, profileFirst) <= 1) {
+			firstScore = 0.9;
+		}
+
+		if (firstScore === 0) {
+			return 0;
+		}
+
+		if (speaker.length === 1) {
+			return FUZZY_MATCH_THRESHOLD;
+		}
+
+		if (profile.length === 1) {
+			return 0;
+		}
+
+		const speakerLast = speaker[speaker.length - 1];
+		const profileLast = profile[profile.length - 1];
+
+		let lastScore = 0;
+		if (speakerLast === profileLast) {
+			lastScore = 1;
+		} else if (speakerLast.length === 1 && profileLast.startsWith(speakerLast)) {
+			lastScore = 0.85;
+		} else if (Math.min(speakerLast.length, profileLast.length) >= 5 && this.editDistance(speakerLast, profileLast) <= 2) {
+			lastScore = 0.8;
+		}
+
+		return firstScore * lastScore;
+	}
+
+	/**
+	 * Levenshtein distance between two short strings
+	 */
+	private editDistance(a: string, b: string): number {
+		let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+		for (let i = 1; i <= a.length; i++) {
+			const current = [i];
+			for (let j = 1; j <= b.length; j++) {
+				current[j] = Math.min(
+					previous[j] + 1,
+					current[j - 1] + 1,
+					previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+				);
+			}
+			previous = current;
+		}
+
+		return previous[b.length];
+	}
 }
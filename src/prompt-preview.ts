@@ -0,0 +1,225 @@
+import { App, TFile } from 'obsidian';
+import { MeetingProcessorSettings } from './ui/settings-tab';
+import { LlmProvider, withSchema } from './llm';
+import { SkillLoader } from './skill-loader';
+import { StatusBarManager } from './ui/status-bar';
+import { TranscriptSummarizer } from './transcript-summarizer';
+import { ImageNotesExtractor } from './image-notes';
+import { MeetingExtractor, MEETING_EXTRACTION_SCHEMA } from './meeting-extraction';
+import { PeopleManager } from './people-manager';
+import { MeetingTypeDefinition, PromptRef, STANDUP_MEETING_TYPE } from './meeting-types';
+import { buildPromptValues, stripCopilotDisclaimers } from './prompt-values';
+import { detectTeam } from './validators';
+import { isTranscriptFileReference } from './transcript-importer';
+
+/**
+ * Stands in for model output that a later prompt includes
+ */
+const TRANSCRIPT_SUMMARY_MARKER = '[Transcript Summary from the previous step]';
+
+interface PreviewedPrompt {
+	step: string;
+	/** Skill section the prompt comes from, e.g. "general-meeting › Combine Summaries Prompt" */
+	source: string;
+	prompt: string;
+	note?: string;
+}
+
+/**
+ * Renders the prompts processing would send for a meeting note, without
+ * calling the model
+ *
+ * Follows the same steps, settings and skill sections as the handlers, using
+ * the note as it is now. Output of an earlier model call (the transcript
+ * summary in the combine prompt, part summaries of a long transcript) is
+ * shown as a bracketed placeholder.
+ */
+export class PromptPreviewer {
+	private app: App;
+	private settings: MeetingProcessorSettings;
+	private skillLoader: SkillLoader;
+	private summarizer: TranscriptSummarizer;
+	private imageNotesExtractor: ImageNotesExtractor;
+	private meetingExtractor: MeetingExtractor;
+
+	constructor(app: App, settings: MeetingProcessorSettings, llm: LlmProvider, skillLoader: SkillLoader, statusBar: StatusBarManager) {
+		this.app = app;
+		this.settings = settings;
+		this.skillLoader = skillLoader;
+		this.summarizer = new TranscriptSummarizer(settings, llm, statusBar, skillLoader);
+		this.imageNotesExtractor = new ImageNotesExtractor(app, llm, skillLoader);
+		this.meetingExtractor = new MeetingExtractor(settings, llm, new PeopleManager(app), skillLoader);
+	}
+
+	/**
+	 * Markdown report of every prompt for the note, in the order they'd be sent
+	 */
+	async preview(file: TFile, meetingType: MeetingTypeDefinition): Promise<string> {
+		const content = await this.app.vault.read(file);
+		const lines: string[] = [
+			`# Prompt Preview: ${file.basename}`,
+			'',
+			`Meeting type: **${meetingType.name}** (\`${meetingType.id}\`, steps: ${meetingType.steps.join(', ')})`,
+			'',
+			'Nothing was sent to the model. Prompts are rendered from the note as it is now - steps that run first ' +
+			'(cleaning the transcript, writing the summary) can change what later prompts contain.',
+			''
+		];
+
+		if (meetingType === STANDUP_MEETING_TYPE && !this.isPostMeeting(content)) {
+			lines.push('This standup has no transcript yet, so processing would only query JIRA - no prompts are sent.');
+			return lines.join('\n');
+		}
+
+		let prompts: PreviewedPrompt[];
+		try {
+			prompts = this.collectPrompts(file, content, meetingType);
+		} catch (error) {
+			lines.push(`**Could not render prompts:** ${error.message}`);
+			return lines.join('\n');
+		}
+
+		if (prompts.length === 0) {
+			lines.push('No prompts would be sent for this note with the current settings.');
+		}
+
+		for (const { step, source, prompt, note } of prompts) {
+			lines.push(`## ${step}`, '', `**${source}** (${prompt.length.toLocaleString()} chars)`, '');
+			if (note) {
+				lines.push(`_${note}_`, '');
+			}
+			const fence = this.fenceFor(prompt);
+			lines.push(fence, prompt, fence, '');
+		}
+
+		return lines.join('\n');
+	}
+
+	private collectPrompts(file: TFile, content: string, meetingType: MeetingTypeDefinition): PreviewedPrompt[] {
+		const steps = meetingType.steps;
+		const values = this.getPromptValues(file, content, meetingType);
+		const prompts: PreviewedPrompt[] = [];
+
+		if (steps.includes('attendees')) {
+			const screenshots = content.match(/!\[\[(SCR-[^\]]+\.(?:png|jpe?g|webp))\]\]/gi) || [];
+			if (screenshots.length > 0) {
+				prompts.push({
+					step: 'Attendees',
+					source: 'attendee-extraction › Screenshot Prompt',
+					prompt: this.skillLoader.renderPrompt('attendee-extraction', 'Screenshot Prompt'),
+					note: `Sent with each of ${screenshots.length} attendee screenshots`
+				});
+			}
+		}
+
+		if (steps.includes('images') && this.settings.describeImages) {
+			const batches = this.imageNotesExtractor.batch(this.imageNotesExtractor.findImages(file, content));
+			batches.forEach((batch, i) => prompts.push({
+				step: batches.length > 1 ? `Image Notes (${i + 1} of ${batches.length})` : 'Image Notes',
+				source: 'image-notes › Description Prompt',
+				prompt: this.imageNotesExtractor.buildPrompt(batch),
+				note: `Sent with ${batch.map(image => image.name).join(', ')}`
+			}));
+		}
+
+		if (steps.includes('summary')) {
+			prompts.push(...this.collectSummaryPrompts(content, meetingType, values));
+		}
+
+		if (steps.includes('outcomes') && this.settings.extractOutcomes) {
+			const source = this.meetingExtractor.selectSource(content);
+			if (source) {
+				prompts.push({
+					step: 'Meeting Outcomes',
+					source: 'meeting-outcomes › Extraction Prompt',
+					prompt: withSchema(this.meetingExtractor.buildPrompt(source), MEETING_EXTRACTION_SCHEMA),
+					note: 'Uses the summary sections as they are now - after the summary step runs, the new summary is used'
+				});
+			}
+		}
+
+		return prompts;
+	}
+
+	/**
+	 * Same routing as the handlers' generateSummary(): enhanced when there's a
+	 * Copilot Summary and a transcript, standard otherwise
+	 */
+	private collectSummaryPrompts(content: string, meetingType: MeetingTypeDefinition, values: Record<string, string>): PreviewedPrompt[] {
+		if (this.getSection(content, 'Unified Summary').length > 20) {
+			return [];
+		}
+
+		const copilotSummary = this.getSection(content, 'Copilot Summary');
+		const transcript = this.getSection(content, 'Transcript');
+		const { summary, transcriptSummary, combineSummaries } = meetingType.prompts;
+
+		const transcriptIsFile = isTranscriptFileReference(transcript);
+		if (copilotSummary && transcript.length > 20 && !transcriptIsFile) {
+			const instructions = this.render(transcriptSummary, values);
+			const transcriptPrompts = this.summarizer.previewPrompts(transcript, instructions);
+			const prompts: PreviewedPrompt[] = transcriptPrompts.map((prompt, i) => ({
+				step: transcriptPrompts.length > 1 ? `Transcript Summary (${i + 1} of ${transcriptPrompts.length})` : 'Transcript Summary',
+				source: `${this.describeRef(transcriptSummary)}, wrapped by summary-generation`,
+				prompt
+			}));
+
+			const strippedSummary = copilotSummary.startsWith('#') ? '' : stripCopilotDisclaimers(copilotSummary);
+			if (strippedSummary.length >= 50) {
+				prompts.push({
+					step: 'Unified Summary',
+					source: this.describeRef(combineSummaries),
+					prompt: this.render(combineSummaries, { ...values, copilotSummary: strippedSummary, transcriptSummary: TRANSCRIPT_SUMMARY_MARKER })
+				});
+			}
+			return prompts;
+		}
+
+		const contentToSummarize = copilotSummary || transcript;
+		if (contentToSummarize.length < 20) {
+			return [];
+		}
+		return [{
+			step: 'Summary',
+			source: this.describeRef(summary),
+			prompt: this.render(summary, { ...values, content: contentToSummarize }),
+			note: transcriptIsFile ? 'The transcript is a link to a file, not its text - use "Import Transcript into Meeting" to bring the text in' : undefined
+		}];
+	}
+
+	private getPromptValues(file: TFile, content: string, meetingType: MeetingTypeDefinition): Record<string, string> {
+		const team = meetingType === STANDUP_MEETING_TYPE ? detectTeam(file, this.app) : null;
+		return buildPromptValues(file, content, team ? team.charAt(0).toUpperCase() + team.slice(1) : '');
+	}
+
+	/**
+	 * Standups only send prompts once the transcript is in (same check as the standup handler)
+	 */
+	private isPostMeeting(content: string): boolean {
+		return this.getSection(content, 'Transcript').length > 50;
+	}
+
+	private getSection(content: string, heading: string): string {
+		const match = content.match(new RegExp(`# ${heading}\\s*\\n([\\s\\S]*?)(?=\\n#|$)`));
+		return match ? match[1].trim() : '';
+	}
+
+	private render(ref: PromptRef, values: Record<string, string>): string {
+		return this.skillLoader.renderPrompt(ref.skill, ref.section, values);
+	}
+
+	private describeRef(ref: PromptRef): string {
+		return `${ref.skill} › ${ref.section}`;
+	}
+
+	/**
+	 * A tilde fence longer than any inside the prompt
+	 */
+	private fenceFor(prompt: string): string {
+		let fence = '~~~~';
+		while (prompt.includes(fence)) {
+			fence += '~';
+		}
+		return fence;
+	}
+}
@@ -0,0 +1,41 @@
+/**
+ * {{name}} placeholders in skill prompt sections
+ */
+const PLACEHOLDER_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+/**
+ * Fill {{name}} placeholders from values
+ * Unknown placeholders are left in place (and logged) so a typo shows up in the prompt
+ */
+export function renderTemplate(template: string, values: Record<string, string>): string {
+	return template.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => {
+		if (name in values) {
+			return values[name];
+		}
+		console.warn(`Unknown prompt placeholder: ${placeholder}`);
+		return placeholder;
+	});
+}
+
+/**
+ * Names of the {{placeholders}} in a template, in order of first use
+ */
+export function listPlaceholders(template: string): string[] {
+	const names: string[] = [];
+	for (const match of template.matchAll(PLACEHOLDER_PATTERN)) {
+		if (!names.includes(match[1])) {
+			names.push(match[1]);
+		}
+	}
+	return names;
+}
+
+/**
+ * Text of a prompt section: the contents of its first fenced block, so the
+ * prompt can contain headings and be described above the fence. Sections
+ * without a fence are used whole.
+ */
+export function getPromptText(section: string): string {
+	const match = section.match(/(?:^|\n)(```|~~~)[^\n]*\n([\s\S]*?)\n\1[ \t]*(?:\n|$)/);
+	return match ? match[2] : section.trim();
+}
@@ -0,0 +1,46 @@
+import { TFile } from 'obsidian';
+
+/**
+ * Placeholder values every meeting prompt can use
+ * @param team Team name for standups, empty otherwise
+ */
+export function buildPromptValues(file: TFile, content: string, team: string = ''): Record<string, string> {
+	return {
+		meetingTitle: file.basename,
+		attendees: getAttendeeNames(content).join(', ') || 'Unknown',
+		team
+	};
+}
+
+/**
+ * Names listed in the # Attendees section (link aliases, or the linked note's name)
+ */
+export function getAttendeeNames(content: string): string[] {
+	const match = content.match(/# Attendees\s*\n([\s\S]*?)(?=\n# |$)/);
+	if (!match) {
+		return [];
+	}
+
+	return match[1].split('\n')
+		.map(line => line.match(/^\s*[-*]\s+(.+)$/)?.[1] ?? '')
+		.map(item => item.replace(/\[\[(?:[^\]|]*\|)?([^\]]+)\]\]/g, (link, target: string) => target.split('/').pop() || target).trim())
+		.filter(name => name.length > 0);
+}
+
+/**
+ * Remove the AI disclaimer Teams sometimes adds to its Copilot Summary
+ */
+export function stripCopilotDisclaimers(summary: string): string {
+	const disclaimerPatterns = [
+		/AI-generated content.*?may be incorrect.*?\[Learn more\]\([^)]+\)/gi,
+		/AI-generated content.*?may not be accurate.*?\[Learn more\]\([^)]+\)/gi,
+		/This summary was generated by AI.*?may be incorrect.*?\[Learn more\]\([^)]+\]/gi,
+		/\[Learn more\]\([^)]+\)/gi
+	];
+
+	let cleaned = summary;
+	for (const pattern of disclaimerPatterns) {
+		cleaned = cleaned.replace(pattern, '').trim();
+	}
+	return cleaned;
+}
@@ -0,0 +1,165 @@
+import { App, TFile } from 'obsidian';
+
+/**
+ * Delay between vault writes while a response streams in
+ */
+const WRITE_DEBOUNCE_MS = 500;
+
+/**
+ * Shown under the partial text until the response completes
+ */
+const STREAMING_MARKER = '_Generating…_';
+
+/**
+ * Streams a model response into a "# Heading" section of a note
+ *
+ * Partial text is written with debounced vault.process calls so the note
+ * updates while the model is still answering. The caller writes the final
+ * content itself; if the response fails, rollback() puts the section back
+ * exactly as it was (or removes it if it didn't exist).
+ *
+ * Headings in the partial text are written as bold lines, so the section
+ * always ends at the next real "#" heading and can be found again.
+ */
+export class SectionStreamWriter {
+	private app: App;
+	private file: TFile;
+	private heading: string;
+	private insertBefore: string | null;
+	private originalSection: string | null = null;
+	private buffer = '';
+	private timer: ReturnType<typeof setTimeout> | null = null;
+	private pendingWrite: Promise<void> = Promise.resolve();
+	private closed = false;
+	private written = false;
+
+	/**
+	 * @param heading Section heading without "# ", e.g. "Summary"
+	 * @param insertBefore Heading to insert a new section above (appended to the note if absent)
+	 */
+	constructor(app: App, file: TFile, heading: string, insertBefore: string | null = null) {
+		this.app = app;
+		this.file = file;
+		this.heading = heading;
+		this.insertBefore = insertBefore;
+	}
+
+	/**
+	 * Snapshot the section so it can be restored on failure
+	 */
+	async open(): Promise<void> {
+		const content = await this.app.vault.read(this.file);
+		const match = content.match(this.getSectionRegex());
+		this.originalSection = match ? match[0] : null;
+	}
+
+	/**
+	 * Add a chunk of streamed text (bound, so it can be passed as a callback)
+	 */
+	append = (chunk: string): void => {
+		if (this.closed) {
+			return;
+		}
+
+		this.buffer += chunk;
+
+		if (!this.timer) {
+			this.timer = setTimeout(() => {
+				this.timer = null;
+				this.queueWrite(`${this.demoteHeadings(this.buffer.trim())}\n\n${STREAMING_MARKER}`);
+			}, WRITE_DEBOUNCE_MS);
+		}
+	};
+
+	/**
+	 * Discard streamed text, e.g. before the request is retried (bound, like append)
+	 */
+	reset = (): void => {
+		this.buffer = '';
+	};
+
+	/**
+	 * Stop streaming; the caller then writes the final section content
+	 */
+	async finish(): Promise<void> {
+		this.close();
+		await this.pendingWrite;
+	}
+
+	/**
+	 * Stop streaming and restore the section to its state before open()
+	 */
+	async rollback(): Promise<void> {
+		this.close();
+		await this.pendingWrite;
+
+		// Nothing was written yet
+		if (!this.written) {
+			return;
+		}
+
+		console.log(`Rolling back streamed # ${this.heading} section`);
+		await this.app.vault.process(this.file, (content) => {
+			const regex = this.getSectionRegex();
+			if (!regex.test(content)) {
+				return content;
+			}
+			return this.originalSection !== null
+				? content.replace(regex, this.originalSection)
+				: content.replace(new RegExp(`${regex.source}\\n*`), '');
+		});
+	}
+
+	private close(): void {
+		this.closed = true;
+		if (this.timer) {
+			clearTimeout(this.timer);
+			this.timer = null;
+		}
+	}
+
+	/**
+	 * Writes are chained so they never overlap or land out of order
+	 */
+	private queueWrite(body: string): void {
+		this.pendingWrite = this.pendingWrite
+			.then(() => this.app.vault.process(this.file, (content) => this.replaceSection(content, body)))
+			.then(() => {
+				this.written = true;
+			})
+			.catch(error => console.warn(`Error streaming into # ${this.heading}:`, error));
+	}
+
+	private replaceSection(content: string, body: string): string {
+		const section = `# ${this.heading}\n\n${body}\n\n`;
+		const regex = this.getSectionRegex();
+
+		if (regex.test(content)) {
+			return content.replace(regex, section);
+		}
+
+		if (this.insertBefore) {
+			const beforeRegex = new RegExp(`(# ${this.escape(this.insertBefore)}\\s*\\n)`);
+			if (beforeRegex.test(content)) {
+				return content.replace(beforeRegex, section + '$1');
+			}
+		}
+
+		return content + `\n\n${section}`;
+	}
+
+	/**
+	 * "## Decisions" -> "**Decisions**" (a heading would end the section early)
+	 */
+	private demoteHeadings(text: string): string {
+		return text.replace(/^#{1,6}[ \t]+(.*?)[ \t#]*$/gm, '**$1**');
+	}
+
+	private getSectionRegex(): RegExp {
+		return new RegExp(`# ${this.escape(this.heading)}\\s*\\n[\\s\\S]*?(?=\\n#|$)`);
+	}
+
+	private escape(text: string): string {
+		return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+	}
+}
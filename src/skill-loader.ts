@@ -1,101 +1,319 @@
-import { App } from 'obsidian';
+import { App, normalizePath } from 'obsidian';
+import { createHash } from 'crypto';
+import { MeetingProcessorSettings } from './ui/settings-tab';
+import { renderTemplate, getPromptText } from './prompt-template';
+import { MeetingTypeDefinition, parseMeetingType } from './meeting-types';
 
 export interface Skill {
 	name: string;
 	purpose: string;
 	content: string;
 	sections: Map<string, string>;
+	/** Short content hash, changes whenever the file is edited */
+	version: string;
+	/** "bundled" for the plugin's skills/ directory, "vault" for the user skills folder */
+	source: 'bundled' | 'vault';
+	/** Path the skill was read from, relative to the vault root */
+	path: string;
+	/** Problems found while parsing - the skill is still used */
+	warnings: string[];
+	/** Declared in a "## Meeting Type" section */
+	meetingType?: MeetingTypeDefinition;
 }
 
 /**
- * Loads and parses skill definition files from the skills/ directory
+ * Skills shipped in the plugin's skills/ directory
+ */
+const BUNDLED_SKILLS = [
+	'meeting-router',
+	'general-meeting',
+	'standup-meeting',
+	'transcript-cleanup',
+	'summary-generation',
+	'jira-population',
+	'attendee-extraction',
+	'image-notes',
+	'meeting-outcomes'
+];
+
+/**
+ * Loads and parses skill definition files
+ *
+ * Bundled skills come from the plugin's skills/ directory. Markdown files in
+ * the vault skills folder (if set) replace the bundled skill with the same
+ * file name, or add new skills. Vault files are reloaded when they change.
+ *
+ * Every prompt the plugin sends lives in a "## ... Prompt" section, rendered
+ * with renderPrompt().
  */
 export class SkillLoader {
 	private app: App;
 	private pluginDir: string;
+	private settings: MeetingProcessorSettings;
 	private skills: Map<string, Skill> = new Map();
+	/** Bundled skills, kept for sections a vault override leaves out */
+	private bundledSkills: Map<string, Skill> = new Map();
+	/** Files that could not be read, by path */
+	private loadErrors: Map<string, string> = new Map();
+	/** Reloads run one at a time, so a single-file reload can't interleave with a full one */
+	private reloads: Promise<void> = Promise.resolve();
 
-	constructor(app: App, pluginDir: string) {
+	constructor(app: App, pluginDir: string, settings: MeetingProcessorSettings) {
 		this.app = app;
 		this.pluginDir = pluginDir;
+		this.settings = settings;
 	}
 
 	/**
-	 * Load all skill files from the skills/ directory
+	 * (Re)load the bundled skills, then the vault skills folder on top
 	 */
 	async loadAll(): Promise<void> {
-		const skillFiles = [
-			'meeting-router.md',
-			'general-meeting.md',
-			'standup-meeting.md',
-			'transcript-cleanup.md',
-			'summary-generation.md',
-			'jira-population.md',
-			'attendee-extraction.md'
+		await this.serialize(() => this.loadAllNow());
+	}
+
+	private async loadAllNow(): Promise<void> {
+		// Built up separately and swapped in at the end, so a meeting being processed never sees a half-loaded set
+		const skills = new Map<string, Skill>();
+		const bundledSkills = new Map<string, Skill>();
+		const loadErrors = new Map<string, string>();
+
+		for (const name of BUNDLED_SKILLS) {
+			const skill = await this.loadSkill(name, this.getBundledPath(name), 'bundled', bundledSkills, loadErrors);
+			if (skill) {
+				bundledSkills.set(name, skill);
+				skills.set(name, skill);
+			}
+		}
+
+		const folder = this.getVaultFolder();
+		if (folder) {
+			const adapter = this.app.vault.adapter;
+			if (await adapter.exists(folder)) {
+				const listing = await adapter.list(folder);
+				for (const path of listing.files.filter(file => file.toLowerCase().endsWith('.md')).sort()) {
+					const name = this.nameFromPath(path);
+					const skill = await this.loadSkill(name, path, 'vault', bundledSkills, loadErrors);
+					if (skill) {
+						skills.set(name, skill);
+					}
+				}
+			} else {
+				console.warn(`Skills folder not found: ${folder}`);
+			}
+		}
+
+		this.skills = skills;
+		this.bundledSkills = bundledSkills;
+		this.loadErrors = loadErrors;
+
+		const overrides = Array.from(skills.values()).filter(skill => skill.source === 'vault').length;
+		console.log(`Loaded ${skills.size} skills (${overrides} from the vault)`);
+	}
+
+	/**
+	 * Reload a skill when a file in the vault skills folder is created, edited or deleted
+	 * Other paths are ignored. A deleted override falls back to the bundled skill.
+	 */
+	async onVaultChange(path: string): Promise<void> {
+		const folder = this.getVaultFolder();
+		if (!folder || !path.toLowerCase().endsWith('.md') || !path.startsWith(`${folder}/`) || path.substring(folder.length + 1).includes('/')) {
+			return;
+		}
+
+		await this.serialize(async () => {
+			const name = this.nameFromPath(path);
+			this.loadErrors.delete(path);
+
+			// Read before touching the map, so the skill is never missing while the file loads
+			const skill = await this.app.vault.adapter.exists(path)
+				? await this.loadSkill(name, path, 'vault', this.bundledSkills, this.loadErrors)
+				: null;
+			const replacement = skill || this.bundledSkills.get(name);
+			if (replacement) {
+				this.skills.set(name, replacement);
+			} else {
+				this.skills.delete(name);
+			}
+			console.log(`Reloaded skill ${name} after a change to ${path}`);
+		});
+	}
+
+	/**
+	 * Run a reload after any already queued; a failed one doesn't block the next
+	 */
+	private serialize(reload: () => Promise<void>): Promise<void> {
+		const run = this.reloads.then(reload, reload);
+		this.reloads = run.catch(error => console.error('Skill reload failed:', error));
+		return run;
+	}
+
+	/**
+	 * Markdown listing every loaded skill, where it came from and any parse warnings
+	 */
+	describeSkills(): string {
+		const lines: string[] = [
+			'# Meeting Processor Skills',
+			'',
+			`Vault skills folder: ${this.getVaultFolder() ? `\`${this.getVaultFolder()}\`` : 'not set (Settings → Vault Paths → Skills Folder)'}`,
+			'',
+			'| Skill | Source | Path | Version | Warnings |',
+			'|---|---|---|---|---|'
 		];
 
-		for (const filename of skillFiles) {
-			try {
-				await this.loadSkill(filename);
-			} catch (error) {
-				console.error(`Failed to load skill ${filename}:`, error);
+		const names = Array.from(this.skills.keys()).sort();
+		for (const name of names) {
+			const skill = this.skills.get(name)!;
+			const overrides = skill.source === 'vault' && BUNDLED_SKILLS.includes(name) ? 'vault (overrides bundled)' : skill.source;
+			const warnings = skill.warnings.length > 0 ? skill.warnings.join('<br>') : 'None';
+			lines.push(`| ${name} | ${overrides} | \`${skill.path}\` | ${skill.version} | ${warnings.replace(/\|/g, '\\|')} |`);
+		}
+
+		const meetingTypes = this.getMeetingTypes();
+		if (meetingTypes.length > 0) {
+			lines.push('', '**Meeting types**', '');
+			for (const meetingType of meetingTypes) {
+				const rules = [
+					...meetingType.match.keywords.map(keyword => `file name contains "${keyword}"`),
+					...meetingType.match.types.map(type => `type: ${type}`),
+					...meetingType.match.folders.map(folder => `in ${folder}/`)
+				];
+				lines.push(`- **${meetingType.name}** (\`${meetingType.id}\`, ${meetingType.skill}): ${rules.join(' or ')}. Steps: ${meetingType.steps.join(', ') || 'none'}`);
+			}
+		}
+
+		if (this.loadErrors.size > 0) {
+			lines.push('', '**Files that could not be loaded**', '');
+			for (const [path, error] of this.loadErrors) {
+				lines.push(`- \`${path}\`: ${error}`);
 			}
 		}
 
-		console.log(`Loaded ${this.skills.size} skills`);
+		return lines.join('\n') + '\n';
 	}
 
 	/**
 	 * Load a single skill file
+	 * @param path Path relative to the vault root
+	 * @param bundledSkills Bundled skills to check a vault override against
+	 * @param loadErrors Where a file that can't be read is recorded
+	 * @returns The skill, or null if the file couldn't be read
 	 */
-	private async loadSkill(filename: string): Promise<void> {
-		// Construct path relative to vault root
-		// Plugin dir is something like: .obsidian/plugins/obsidean-meeting
-		const path = `${this.pluginDir}/skills/${filename}`;
-		
-		// Use vault adapter to read file from plugin directory
-		const adapter = this.app.vault.adapter;
-		const content = await adapter.read(path);
-		
-		const skill = this.parseSkill(filename, content);
-		
-		const skillName = filename.replace('.md', '');
-		this.skills.set(skillName, skill);
-		
-		console.log(`Loaded skill: ${skillName}`);
+	private async loadSkill(name: string, path: string, source: Skill['source'], bundledSkills: Map<string, Skill>, loadErrors: Map<string, string>): Promise<Skill | null> {
+		try {
+			const content = await this.app.vault.adapter.read(path);
+			const skill = this.parseSkill(name, path, source, content);
+
+			// Handlers read specific sections, so an override that drops one is worth flagging
+			const bundled = bundledSkills.get(name);
+			if (source === 'vault' && bundled) {
+				const missing = Array.from(bundled.sections.keys()).filter(section => !skill.sections.has(section));
+				if (missing.length > 0) {
+					skill.warnings.push(`Missing sections from the bundled skill (bundled versions are used): ${missing.join(', ')}`);
+				}
+			}
+
+			console.log(`Loaded skill: ${name} (${source})`);
+			return skill;
+		} catch (error) {
+			console.error(`Failed to load skill ${path}:`, error);
+			loadErrors.set(path, error.message);
+			return null;
+		}
 	}
 
 	/**
 	 * Parse markdown skill file into structured data
 	 */
-	private parseSkill(filename: string, content: string): Skill {
+	private parseSkill(fileName: string, path: string, source: Skill['source'], content: string): Skill {
 		const sections = new Map<string, string>();
+		const warnings: string[] = [];
 		
-		// Extract title and purpose
+		// Extract title
 		const titleMatch = content.match(/^#\s+(.+)$/m);
-		const name = titleMatch ? titleMatch[1] : filename.replace('.md', '');
-		
-		const purposeMatch = content.match(/##\s+Purpose\s*\n+([\s\S]*?)(?=\n##|$)/);
-		const purpose = purposeMatch ? purposeMatch[1].trim() : '';
+		const name = titleMatch ? titleMatch[1] : fileName;
+		if (!titleMatch) {
+			warnings.push('No "# Title" heading - using the file name');
+		}
 
-		// Extract all sections
-		const sectionRegex = /##\s+(.+?)\s*\n+([\s\S]*?)(?=\n##|$)/g;
-		let match;
-		
-		while ((match = sectionRegex.exec(content)) !== null) {
-			const sectionTitle = match[1].trim();
-			const sectionContent = match[2].trim();
+		// Split on "## " headings; ### subsections and fenced blocks stay inside their section
+		let sectionTitle: string | null = null;
+		let sectionLines: string[] = [];
+		let inFence = false;
+		const closeSection = () => {
+			if (sectionTitle === null) {
+				return;
+			}
+			const sectionContent = sectionLines.join('\n').trim();
+			if (sections.has(sectionTitle)) {
+				warnings.push(`Duplicate section "${sectionTitle}" - the last one is used`);
+			}
+			if (!sectionContent) {
+				warnings.push(`Section "${sectionTitle}" is empty`);
+			}
 			sections.set(sectionTitle, sectionContent);
+		};
+
+		for (const line of content.split('\n')) {
+			if (/^\s*(```|~~~)/.test(line)) {
+				inFence = !inFence;
+			}
+			const heading = inFence ? null : line.match(/^##\s+(.+?)\s*$/);
+			if (heading) {
+				closeSection();
+				sectionTitle = heading[1];
+				sectionLines = [];
+			} else if (sectionTitle !== null) {
+				sectionLines.push(line);
+			}
+		}
+		closeSection();
+
+		if (sections.size === 0) {
+			warnings.push('No "## Section" headings found');
+		}
+
+		const purpose = sections.get('Purpose') || '';
+		if (!purpose) {
+			warnings.push('No "## Purpose" section');
+		}
+
+		let meetingType: MeetingTypeDefinition | undefined;
+		if (sections.has('Meeting Type')) {
+			const parsed = parseMeetingType(fileName, getPromptText(sections.get('Meeting Type')!), sections);
+			warnings.push(...parsed.problems);
+			meetingType = parsed.definition || undefined;
 		}
 
 		return {
 			name,
 			purpose,
 			content,
-			sections
+			sections,
+			version: createHash('sha256').update(content).digest('hex').substring(0, 12),
+			source,
+			path,
+			warnings,
+			meetingType
 		};
 	}
 
+	private getBundledPath(name: string): string {
+		// Plugin dir is something like: .obsidian/plugins/obsidean-meeting
+		return `${this.pluginDir}/skills/${name}.md`;
+	}
+
+	/**
+	 * Normalized vault skills folder, or empty if none is set
+	 */
+	private getVaultFolder(): string {
+		const folder = this.settings.skillsFolder.trim().replace(/^\/+|\/+$/g, '');
+		return folder ? normalizePath(folder) : '';
+	}
+
+	private nameFromPath(path: string): string {
+		return path.substring(path.lastIndexOf('/') + 1).replace(/\.md$/i, '');
+	}
+
 	/**
 	 * Get a loaded skill by name
 	 */
@@ -103,6 +321,20 @@ export class SkillLoader {
 		return this.skills.get(name);
 	}
 
+	/**
+	 * The bundled copy of a skill, even when a vault file overrides it
+	 */
+	getBundledSkill(name: string): Skill | undefined {
+		return this.bundledSkills.get(name);
+	}
+
+	/**
+	 * Skill files that could not be read, by path
+	 */
+	getLoadErrors(): Map<string, string> {
+		return this.loadErrors;
+	}
+
 	/**
 	 * Get all loaded skills
 	 */
@@ -110,6 +342,15 @@ export class SkillLoader {
 		return this.skills;
 	}
 
+	/**
+	 * Meeting types declared by skills, in skill name order
+	 */
+	getMeetingTypes(): MeetingTypeDefinition[] {
+		return Array.from(this.skills.keys()).sort()
+			.map(name => this.skills.get(name)!.meetingType)
+			.filter((meetingType): meetingType is MeetingTypeDefinition => !!meetingType);
+	}
+
 	/**
 	 * Get a specific section from a skill
 	 */
@@ -117,4 +358,26 @@ export class SkillLoader {
 		const skill = this.skills.get(skillName);
 		return skill?.sections.get(sectionName);
 	}
+
+	/**
+	 * Render a prompt section, e.g. renderPrompt('general-meeting', 'Combine Summaries Prompt', { copilotSummary, transcriptSummary })
+	 * Placeholders are filled from values first, then from the skill's other sections ({{Output Format}}).
+	 * A section missing from a vault override comes from the bundled skill.
+	 * @throws Error if neither has the section
+	 */
+	renderPrompt(skillName: string, sectionName: string, values: Record<string, string> = {}): string {
+		const skill = this.skills.get(skillName);
+		const bundled = this.bundledSkills.get(skillName);
+		const owner = skill?.sections.has(sectionName) ? skill : bundled?.sections.has(sectionName) ? bundled : null;
+		if (!owner) {
+			throw new Error(`Skill "${skillName}" has no "${sectionName}" section`);
+		}
+
+		const sectionValues: Record<string, string> = {};
+		for (const [title, sectionContent] of owner.sections) {
+			sectionValues[title] = sectionContent;
+		}
+
+		return renderTemplate(getPromptText(owner.sections.get(sectionName)!), { ...sectionValues, ...values }).trim();
+	}
 }
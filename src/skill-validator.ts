@@ -0,0 +1,241 @@
+import { Skill, SkillLoader } from './skill-loader';
+import { listPlaceholders, getPromptText } from './prompt-template';
+import { MeetingTypeDefinition, GENERAL_MEETING_TYPE, STANDUP_MEETING_TYPE } from './meeting-types';
+
+/**
+ * Values the code passes to a prompt, and the ones the prompt must use for
+ * the model to see the meeting at all
+ */
+interface PromptContract {
+	allowed: string[];
+	required: string[];
+}
+
+/**
+ * Values every meeting summary prompt gets (see buildPromptValues)
+ */
+const MEETING_VALUES = ['meetingTitle', 'attendees', 'team'];
+
+/**
+ * Contracts for the prompts a meeting type can point at
+ */
+const MEETING_TYPE_CONTRACTS: Record<keyof MeetingTypeDefinition['prompts'], PromptContract> = {
+	summary: { allowed: [...MEETING_VALUES, 'content'], required: ['content'] },
+	transcriptSummary: { allowed: MEETING_VALUES, required: [] },
+	combineSummaries: { allowed: [...MEETING_VALUES, 'copilotSummary', 'transcriptSummary'], required: ['copilotSummary', 'transcriptSummary'] }
+};
+
+/**
+ * Contracts for the prompts the plugin renders directly, by skill and section
+ */
+const SKILL_CONTRACTS: Record<string, Record<string, PromptContract>> = {
+	'attendee-extraction': {
+		'Screenshot Prompt': { allowed: [], required: [] }
+	},
+	'image-notes': {
+		'Description Prompt': { allowed: ['images'], required: ['images'] }
+	},
+	'jira-population': {
+		'JIRA Query Prompt': { allowed: ['cloudId', 'jql'], required: ['jql'] }
+	},
+	'meeting-outcomes': {
+		'Extraction Prompt': { allowed: ['content'], required: ['content'] }
+	},
+	'summary-generation': {
+		'Transcript Prompt': { allowed: ['instructions', 'transcript'], required: ['instructions', 'transcript'] },
+		'Transcript Part Prompt': { allowed: ['part', 'parts', 'transcript'], required: ['transcript'] },
+		'Merge Parts Prompt': { allowed: ['instructions', 'partSummaries'], required: ['instructions', 'partSummaries'] },
+		'Condense Parts Prompt': { allowed: ['partSummaries'], required: ['partSummaries'] }
+	}
+};
+
+interface Expectation {
+	skill: string;
+	section: string;
+	contract: PromptContract;
+	/** What renders the prompt, for messages */
+	usedBy: string;
+}
+
+export interface SkillProblem {
+	level: 'error' | 'warning';
+	message: string;
+}
+
+export interface SkillValidationResult {
+	/** Markdown report */
+	report: string;
+	errors: number;
+	warnings: number;
+}
+
+/**
+ * Checks loaded skills against the sections and {{placeholders}} the plugin
+ * expects them to provide
+ *
+ * Errors are things that break a prompt (a section that can't be found, a
+ * placeholder nothing fills in); warnings are things that probably make it
+ * worse (a prompt that never includes the meeting content).
+ */
+export class SkillValidator {
+	private skillLoader: SkillLoader;
+
+	constructor(skillLoader: SkillLoader) {
+		this.skillLoader = skillLoader;
+	}
+
+	validate(): SkillValidationResult {
+		const problems = new Map<string, SkillProblem[]>();
+		const add = (skillName: string, level: SkillProblem['level'], message: string) => {
+			if (!problems.has(skillName)) {
+				problems.set(skillName, []);
+			}
+			problems.get(skillName)!.push({ level, message });
+		};
+
+		const skills = this.skillLoader.getAllSkills();
+		for (const [name, skill] of skills) {
+			for (const warning of skill.warnings) {
+				add(name, 'warning', warning);
+			}
+			const purposeNearMiss = skill.sections.has('Purpose') ? null : this.findNearMiss(skill, 'Purpose');
+			if (purposeNearMiss) {
+				add(name, 'warning', purposeNearMiss);
+			}
+		}
+
+		for (const expectation of this.getExpectations()) {
+			this.checkPrompt(expectation, add);
+		}
+
+		const lines: string[] = ['# Skill Validation', ''];
+		let errors = 0;
+		let warnings = 0;
+		for (const list of problems.values()) {
+			errors += list.filter(problem => problem.level === 'error').length;
+			warnings += list.filter(problem => problem.level === 'warning').length;
+		}
+		lines.push(`Checked ${skills.size} skills: ${errors} errors, ${warnings} warnings.`, '');
+
+		for (const name of Array.from(skills.keys()).sort()) {
+			const skill = skills.get(name)!;
+			const list = problems.get(name) || [];
+			const icon = list.some(problem => problem.level === 'error') ? '❌' : list.length > 0 ? '⚠️' : '✅';
+			lines.push(`## ${icon} ${name}`, '', `${skill.source} - \`${skill.path}\``, '');
+			if (list.length === 0) {
+				lines.push('No problems found.', '');
+				continue;
+			}
+			for (const problem of list) {
+				lines.push(`- ${problem.level === 'error' ? '❌' : '⚠️'} ${problem.message}`);
+			}
+			lines.push('');
+		}
+
+		// Meeting types can point at skills that aren't loaded
+		for (const name of Array.from(problems.keys()).filter(name => !skills.has(name)).sort()) {
+			lines.push(`## ❌ ${name}`, '', 'Not loaded', '');
+			for (const problem of problems.get(name)!) {
+				lines.push(`- ${problem.level === 'error' ? '❌' : '⚠️'} ${problem.message}`);
+			}
+			lines.push('');
+		}
+
+		const loadErrors = this.skillLoader.getLoadErrors();
+		if (loadErrors.size > 0) {
+			lines.push('## Files that could not be loaded', '');
+			for (const [path, error] of loadErrors) {
+				lines.push(`- \`${path}\`: ${error}`);
+			}
+			lines.push('');
+			errors += loadErrors.size;
+		}
+
+		return { report: lines.join('\n'), errors, warnings };
+	}
+
+	/**
+	 * Every prompt the plugin can render: fixed ones, then each meeting type's
+	 */
+	private getExpectations(): Expectation[] {
+		const expectations: Expectation[] = [];
+		for (const skill of Object.keys(SKILL_CONTRACTS)) {
+			for (const section of Object.keys(SKILL_CONTRACTS[skill])) {
+				expectations.push({ skill, section, contract: SKILL_CONTRACTS[skill][section], usedBy: 'the plugin' });
+			}
+		}
+
+		const meetingTypes = [GENERAL_MEETING_TYPE, STANDUP_MEETING_TYPE, ...this.skillLoader.getMeetingTypes()];
+		for (const meetingType of meetingTypes) {
+			for (const role of Object.keys(MEETING_TYPE_CONTRACTS) as (keyof MeetingTypeDefinition['prompts'])[]) {
+				const { skill, section } = meetingType.prompts[role];
+				expectations.push({ skill, section, contract: MEETING_TYPE_CONTRACTS[role], usedBy: `the ${meetingType.id} meeting type (${role})` });
+			}
+		}
+
+		// Custom types inherit the general prompts - check each section once per role
+		const seen = new Set<string>();
+		return expectations.filter(expectation => {
+			const key = `${expectation.skill}#${expectation.section}#${expectation.contract.required.join(',')}`;
+			if (seen.has(key)) {
+				return false;
+			}
+			seen.add(key);
+			return true;
+		});
+	}
+
+	private checkPrompt(expectation: Expectation, add: (skillName: string, level: SkillProblem['level'], message: string) => void): void {
+		const { section, contract, usedBy } = expectation;
+		const skill = this.skillLoader.getSkill(expectation.skill);
+		const bundled = this.skillLoader.getBundledSkill(expectation.skill);
+
+		// Same lookup as renderPrompt(): the loaded skill, then the bundled copy
+		const owner = skill?.sections.has(section) ? skill : bundled?.sections.has(section) ? bundled : null;
+		if (!owner) {
+			const nearMiss = skill ? this.findNearMiss(skill, section) : null;
+			add(expectation.skill, 'error', `Missing section "${section}", used by ${usedBy}${nearMiss ? ` - ${nearMiss}` : ''}`);
+			return;
+		}
+		if (owner !== skill) {
+			// Already reported by the loader as a missing section; point at a likely typo
+			const nearMiss = skill ? this.findNearMiss(skill, section) : null;
+			if (nearMiss) {
+				add(expectation.skill, 'warning', `${nearMiss} (the bundled "${section}" is used meanwhile)`);
+			}
+			return;
+		}
+
+		const placeholders = listPlaceholders(getPromptText(owner.sections.get(section)!));
+		for (const name of placeholders) {
+			if (!contract.allowed.includes(name) && !owner.sections.has(name)) {
+				const expected = contract.allowed.length > 0 ? contract.allowed.map(value => `{{${value}}}`).join(', ') : 'none';
+				add(expectation.skill, 'error', `"${section}" uses {{${name}}}, which is not filled in and will be sent as written (values available: ${expected}, or a section of this skill)`);
+			}
+		}
+		for (const name of contract.required) {
+			if (!placeholders.includes(name)) {
+				add(expectation.skill, 'warning', `"${section}" doesn't use {{${name}}}, so the model never sees it (used by ${usedBy})`);
+			}
+		}
+	}
+
+	/**
+	 * A heading outside fences that was probably meant to be "## section"
+	 * (wrong level, wrong case or no space after the hashes)
+	 */
+	private findNearMiss(skill: Skill, section: string): string | null {
+		let inFence = false;
+		for (const line of skill.content.split('\n')) {
+			if (/^\s*(```|~~~)/.test(line)) {
+				inFence = !inFence;
+				continue;
+			}
+			const heading = inFence ? null : line.match(/^\s*(#+)\s*(.+?)\s*$/);
+			if (heading && heading[2].toLowerCase() === section.toLowerCase() && line.trim() !== `## ${section}`) {
+				return `"${line.trim()}" should be "## ${section}"`;
+			}
+		}
+		return null;
+	}
+}
@@ -0,0 +1,39 @@
+import { App, TFile } from 'obsidian';
+
+/**
+ * Frontmatter key set when a summary could not be generated completely
+ */
+export const SUMMARY_STATUS_KEY = 'summary-status';
+
+/**
+ * Record that the summary is missing or incomplete (e.g. the model timed out)
+ * Nothing partial is written to the note - reprocessing retries the summary
+ */
+export async function markSummaryIncomplete(app: App, file: TFile, reason: string): Promise<void> {
+	try {
+		await app.fileManager.processFrontMatter(file, (frontmatter) => {
+			frontmatter[SUMMARY_STATUS_KEY] = 'incomplete';
+		});
+		console.warn(`Summary marked incomplete for ${file.path}: ${reason}`);
+	} catch (error) {
+		console.error('Error marking summary incomplete:', error);
+	}
+}
+
+/**
+ * Clear an earlier incomplete marker after a successful summary
+ */
+export async function clearSummaryStatus(app: App, file: TFile): Promise<void> {
+	const frontmatter = app.metadataCache.getFileCache(file)?.frontmatter;
+	if (!frontmatter || !(SUMMARY_STATUS_KEY in frontmatter)) {
+		return;
+	}
+
+	try {
+		await app.fileManager.processFrontMatter(file, (fm) => {
+			delete fm[SUMMARY_STATUS_KEY];
+		});
+	} catch (error) {
+		console.error('Error clearing summary status:', error);
+	}
+}
@@ -0,0 +1,83 @@
+import { App, TFile } from 'obsidian';
+import { TranscriptDetector, TranscriptCleaner } from './transcript';
+import { CleanerPickerModal } from './ui/cleaner-picker-modal';
+
+/**
+ * Frontmatter key that remembers the transcript format chosen for a meeting
+ */
+export const TRANSCRIPT_FORMAT_KEY = 'transcript-format';
+
+/**
+ * Chooses the transcript cleaner for a meeting file
+ *
+ * 1. A format remembered in the note's frontmatter (if it still matches the content)
+ * 2. The single best-scoring cleaner
+ * 3. The user's pick from a preview modal when the top scores are close
+ */
+export class TranscriptFormatSelector {
+	private app: App;
+	private detector: TranscriptDetector;
+
+	constructor(app: App, detector: TranscriptDetector) {
+		this.app = app;
+		this.detector = detector;
+	}
+
+	/**
+	 * Select the cleaner to use for a meeting's transcript
+	 */
+	async select(file: TFile, content: string): Promise<TranscriptCleaner> {
+		// 1. Honor a previous choice for this meeting
+		const remembered = this.getRememberedCleaner(file);
+		if (remembered) {
+			if (remembered.getConfidence(content) > 0) {
+				console.log(`Using remembered transcript format: ${remembered.getName()}`);
+				return remembered;
+			}
+			// Usually means the transcript was already cleaned on a previous run
+			console.log(`Remembered format ${remembered.getName()} no longer matches transcript, re-detecting`);
+		}
+
+		// 2. Clear winner - no need to ask
+		const ambiguous = this.detector.getAmbiguousCandidates(content);
+		if (ambiguous.length === 0) {
+			return this.detector.detect(content);
+		}
+
+		// 3. Let the user decide between close matches
+		console.log('Ambiguous transcript format:', ambiguous.map(c => `${c.cleaner.getName()} (${c.confidence.toFixed(2)})`).join(', '));
+		const picked = await CleanerPickerModal.pick(this.app, content, ambiguous);
+		if (!picked) {
+			console.log('Format picker dismissed, using best match');
+			return ambiguous[0].cleaner;
+		}
+
+		await this.rememberCleaner(file, picked);
+		return picked;
+	}
+
+	private getRememberedCleaner(file: TFile): TranscriptCleaner | undefined {
+		const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+		const name = frontmatter?.[TRANSCRIPT_FORMAT_KEY];
+		if (typeof name !== 'string' || !name) {
+			return undefined;
+		}
+
+		const cleaner = this.detector.getCleanerByName(name);
+		if (!cleaner) {
+			console.warn(`Unknown transcript format in frontmatter: ${name}`);
+		}
+		return cleaner;
+	}
+
+	private async rememberCleaner(file: TFile, cleaner: TranscriptCleaner): Promise<void> {
+		try {
+			await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+				frontmatter[TRANSCRIPT_FORMAT_KEY] = cleaner.getName();
+			});
+			console.log(`Saved transcript format to frontmatter: ${cleaner.getName()}`);
+		} catch (error) {
+			console.error('Error saving transcript format to frontmatter:', error);
+		}
+	}
+}
@@ -0,0 +1,129 @@
+import { App, TFile } from 'obsidian';
+import * as mammoth from 'mammoth';
+import { MeetingProcessorSettings } from './ui/settings-tab';
+import { TranscriptDetector, ParticipationAnalyzer, DisfluencyFilter, renderTranscript } from './transcript';
+import { TranscriptFormatSelector } from './transcript-format-selector';
+import { CustomCleanerLoader } from './custom-cleaner-loader';
+import { PeopleManager } from './people-manager';
+import { TranscriptFileSource } from './ui/transcript-file-modal';
+
+/**
+ * File types that can be imported as transcripts
+ */
+export const TRANSCRIPT_EXTENSIONS = ['docx', 'vtt', 'srt', 'txt', 'md'];
+
+/**
+ * Frontmatter key that links a meeting to its imported transcript file
+ */
+export const TRANSCRIPT_SOURCE_KEY = 'transcript-source';
+
+/**
+ * Whether a # Transcript section is only a link to a transcript file
+ * ("![[call.docx]]", "~/Downloads/call.vtt") rather than transcript text
+ */
+export function isTranscriptFileReference(transcript: string): boolean {
+	const text = transcript.trim();
+	return /^!?\[\[[^\]\n]+\]\]$/.test(text) || /^[^\n]+\.(?:docx?|vtt|srt)$/i.test(text);
+}
+
+/**
+ * Imports a transcript file into a meeting's # Transcript section
+ *
+ * Extracts the text (mammoth for .docx), detects the format, applies the same
+ * clean-up passes as meeting processing and records the source in frontmatter.
+ */
+export class TranscriptImporter {
+	private app: App;
+	private settings: MeetingProcessorSettings;
+	private transcriptDetector: TranscriptDetector;
+	private formatSelector: TranscriptFormatSelector;
+	private customCleanerLoader: CustomCleanerLoader;
+	private disfluencyFilter: DisfluencyFilter;
+	private participationAnalyzer: ParticipationAnalyzer;
+	private peopleManager: PeopleManager;
+
+	constructor(app: App, settings: MeetingProcessorSettings) {
+		this.app = app;
+		this.settings = settings;
+		this.transcriptDetector = new TranscriptDetector();
+		this.formatSelector = new TranscriptFormatSelector(app, this.transcriptDetector);
+		this.customCleanerLoader = new CustomCleanerLoader(app, settings);
+		this.disfluencyFilter = new DisfluencyFilter(settings);
+		this.participationAnalyzer = new ParticipationAnalyzer();
+		this.peopleManager = new PeopleManager(app);
+	}
+
+	/**
+	 * Import a transcript file into a meeting note
+	 * @returns Name of the transcript format that was used
+	 */
+	async importInto(meetingFile: TFile, source: TranscriptFileSource): Promise<string> {
+		console.log(`Importing transcript from ${source.name} into ${meetingFile.path}`);
+
+		const text = await this.extractText(source);
+		if (!text.trim()) {
+			throw new Error(`No text found in ${source.name}`);
+		}
+
+		// Detect format (asking the user if ambiguous) and parse into speaker entries
+		await this.customCleanerLoader.applyTo(this.transcriptDetector);
+		const cleaner = await this.formatSelector.select(meetingFile, text);
+		const result = this.transcriptDetector.detectAndParse(text, cleaner);
+		console.log(`Parsed imported transcript using: ${result.cleaner}`);
+
+		if (result.entries.length === 0) {
+			throw new Error(`No speaker turns found in ${source.name}`);
+		}
+
+		let entries = this.settings.removeDisfluencies
+			? this.disfluencyFilter.apply(result.entries)
+			: result.entries;
+
+		if (this.settings.linkSpeakers) {
+			entries = await this.peopleManager.linkSpeakers(entries);
+		}
+
+		// Keep a link back to the original file
+		await this.app.fileManager.processFrontMatter(meetingFile, (frontmatter) => {
+			frontmatter[TRANSCRIPT_SOURCE_KEY] = source.link;
+		});
+
+		// Re-read - the frontmatter was just updated
+		const content = await this.app.vault.read(meetingFile);
+		const section = `# Transcript\n\n${renderTranscript(entries)}\n\n`;
+		const transcriptRegex = /# Transcript\s*\n[\s\S]*?(?=\n#|$)/;
+
+		let newContent = transcriptRegex.test(content)
+			? content.replace(transcriptRegex, section)
+			: content.trimEnd() + `\n\n${section}`;
+
+		if (this.settings.includeParticipation) {
+			newContent = this.participationAnalyzer.updateSection(newContent, entries);
+		}
+
+		await this.app.vault.modify(meetingFile, newContent);
+		console.log(`Imported ${entries.length} speaker turns from ${source.name}`);
+
+		return result.cleaner;
+	}
+
+	/**
+	 * Extract plain text from a transcript file
+	 */
+	private async extractText(source: TranscriptFileSource): Promise<string> {
+		const extension = source.name.split('.').pop()?.toLowerCase() || '';
+		if (!TRANSCRIPT_EXTENSIONS.includes(extension)) {
+			throw new Error(`Unsupported transcript file type: .${extension}`);
+		}
+
+		const data = await source.read();
+
+		if (extension === 'docx') {
+			const result = await mammoth.extractRawText({ buffer: Buffer.from(data) });
+			console.log('Extracted text from Word doc, length:', result.value.length);
+			return result.value;
+		}
+
+		return new TextDecoder('utf-8').decode(data);
+	}
+}
@@ -0,0 +1,124 @@
+import { LlmProvider, PromptOptions } from './llm';
+import { StatusBarManager } from './ui/status-bar';
+import { MeetingProcessorSettings } from './ui/settings-tab';
+import { chunkTranscript } from './transcript';
+import { SkillLoader } from './skill-loader';
+
+/**
+ * Never chunk below this size, whatever the setting says
+ */
+const MIN_CHUNK_CHARS = 2000;
+
+/**
+ * Summarizes transcripts of any length
+ *
+ * Short transcripts go to the model in one prompt. Long ones are split on
+ * speaker-turn boundaries, each chunk is summarized (map), then the chunk
+ * summaries are merged into the final summary (reduce). The wrapping prompts
+ * come from the summary-generation skill.
+ */
+export class TranscriptSummarizer {
+	private settings: MeetingProcessorSettings;
+	private llm: LlmProvider;
+	private statusBar: StatusBarManager;
+	private skillLoader: SkillLoader;
+
+	constructor(settings: MeetingProcessorSettings, llm: LlmProvider, statusBar: StatusBarManager, skillLoader: SkillLoader) {
+		this.settings = settings;
+		this.llm = llm;
+		this.statusBar = statusBar;
+		this.skillLoader = skillLoader;
+	}
+
+	/**
+	 * Summarize a transcript
+	 * @param transcript Transcript text
+	 * @param instructions What the final summary should contain (without the transcript)
+	 * @param options Applied to the final summary call (chunk summaries are not streamed)
+	 */
+	async summarize(transcript: string, instructions: string, options: PromptOptions = {}): Promise<string> {
+		const maxChars = this.getChunkSize();
+		const chunks = chunkTranscript(transcript, maxChars);
+
+		if (chunks.length <= 1) {
+			return await this.llm.sendPrompt(this.buildSinglePrompt(transcript, instructions), options);
+		}
+
+		console.log(`Transcript is ${transcript.length} chars, summarizing in ${chunks.length} chunks`);
+
+		// Map: summarize each chunk in order
+		const partSummaries: string[] = [];
+		for (let i = 0; i < chunks.length; i++) {
+			this.statusBar.showProgress('Summarizing transcript', i + 1, chunks.length);
+			const partSummary = await this.llm.sendPrompt(this.buildChunkPrompt(chunks[i], i, chunks.length));
+			partSummaries.push(`Part ${i + 1} of ${chunks.length}:\n${partSummary.trim()}`);
+			console.log(`Summarized transcript chunk ${i + 1}/${chunks.length} (${chunks[i].length} chars)`);
+		}
+
+		// Reduce: merge the part summaries (in rounds, if even they are too long)
+		let combined = partSummaries.join('\n\n');
+		while (combined.length > maxChars && partSummaries.length > 1) {
+			combined = await this.condense(combined, maxChars);
+		}
+
+		this.statusBar.show('Combining transcript summaries...', 0);
+		return await this.llm.sendPrompt(this.buildMergePrompt(combined, instructions), options);
+	}
+
+	/**
+	 * The prompts summarize() would send, without calling the model
+	 * Part summaries in the merge prompt are shown as placeholders, and extra
+	 * condense rounds (only needed when the part summaries are too long) are left out.
+	 */
+	previewPrompts(transcript: string, instructions: string): string[] {
+		const chunks = chunkTranscript(transcript, this.getChunkSize());
+		if (chunks.length <= 1) {
+			return [this.buildSinglePrompt(transcript, instructions)];
+		}
+
+		const prompts = chunks.map((chunk, i) => this.buildChunkPrompt(chunk, i, chunks.length));
+		const partSummaries = chunks.map((_, i) => `Part ${i + 1} of ${chunks.length}:\n[Summary of part ${i + 1} from the model]`);
+		prompts.push(this.buildMergePrompt(partSummaries.join('\n\n'), instructions));
+		return prompts;
+	}
+
+	/**
+	 * One extra reduce round: summarize groups of part summaries
+	 */
+	private async condense(combined: string, maxChars: number): Promise<string> {
+		const groups = chunkTranscript(combined, maxChars);
+		console.log(`Part summaries too long (${combined.length} chars), condensing in ${groups.length} groups`);
+
+		const condensed: string[] = [];
+		for (let i = 0; i < groups.length; i++) {
+			this.statusBar.showProgress('Condensing transcript summaries', i + 1, groups.length);
+			const summary = await this.llm.sendPrompt(this.skillLoader.renderPrompt('summary-generation', 'Condense Parts Prompt', { partSummaries: groups[i] }));
+			condensed.push(`Parts group ${i + 1} of ${groups.length}:\n${summary.trim()}`);
+		}
+
+		const result = condensed.join('\n\n');
+		// Guard against a model that won't shorten its input
+		return result.length < combined.length ? result : result.substring(0, maxChars);
+	}
+
+	private buildSinglePrompt(transcript: string, instructions: string): string {
+		return this.skillLoader.renderPrompt('summary-generation', 'Transcript Prompt', { instructions, transcript });
+	}
+
+	private buildMergePrompt(partSummaries: string, instructions: string): string {
+		return this.skillLoader.renderPrompt('summary-generation', 'Merge Parts Prompt', { instructions, partSummaries });
+	}
+
+	private buildChunkPrompt(chunk: string, index: number, total: number): string {
+		return this.skillLoader.renderPrompt('summary-generation', 'Transcript Part Prompt', {
+			part: String(index + 1),
+			parts: String(total),
+			transcript: chunk
+		});
+	}
+
+	private getChunkSize(): number {
+		const size = parseInt(this.settings.summaryChunkSize, 10);
+		return isNaN(size) ? MIN_CHUNK_CHARS * 10 : Math.max(MIN_CHUNK_CHARS, size);
+	}
+}
@@ -0,0 +1,57 @@
+/**
+ * Split a transcript into chunks of at most maxChars characters
+ *
+ * Splits only between speaker turns (blank-line separated blocks, as written by
+ * renderTranscript) so no turn is cut in half. A single turn longer than
+ * maxChars is split between its lines, and a single line longer than maxChars
+ * is kept whole rather than being cut mid-sentence.
+ */
+export function chunkTranscript(transcript: string, maxChars: number): string[] {
+	const text = transcript.replace(/\r\n?/g, '\n').trim();
+	if (!text) {
+		return [];
+	}
+	if (text.length <= maxChars) {
+		return [text];
+	}
+
+	const blocks = text.split(/\n\s*\n/).map(b => b.trim()).filter(b => b.length > 0);
+	const chunks: string[] = [];
+	let current = '';
+
+	for (const block of blocks) {
+		if (block.length <= maxChars) {
+			if (current && current.length + 2 + block.length > maxChars) {
+				chunks.push(current);
+				current = '';
+			}
+			current = current ? `${current}\n\n${block}` : block;
+			continue;
+		}
+
+		// Oversized turn - fall back to line boundaries, repeating the speaker
+		// name so every chunk keeps its attribution
+		if (current) {
+			chunks.push(current);
+		}
+
+		const [speaker, ...lines] = block.split('\n');
+		current = speaker;
+		let linesInChunk = 0;
+		for (const line of lines) {
+			if (linesInChunk > 0 && current.length + 1 + line.length > maxChars) {
+				chunks.push(current);
+				current = `${speaker} (continued)`;
+				linesInChunk = 0;
+			}
+			current += '\n' + line;
+			linesInChunk++;
+		}
+	}
+
+	if (current) {
+		chunks.push(current);
+	}
+
+	return chunks;
+}
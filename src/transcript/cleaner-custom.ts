@@ -0,0 +1,175 @@
+import { TranscriptCleaner, SpeakerEntry } from './types';
+import { renderTranscript } from './renderer';
+import { parseTimestamp, fillEndTimes } from './timestamps';
+
+/**
+ * A user-declared transcript format, loaded from a JSON/YAML file in the vault
+ *
+ * Example (YAML):
+ * cleaners:
+ *   - name: Recorder Export
+ *     priority: 0.9
+ *     detect: '^RECORDER EXPORT v\d'
+ *     speakerLine: '^\[(?<timestamp>[\d:]+)\]\s+(?<speaker>[^:]+):\s*(?<content>.*)$'
+ *     ignore: ['^Page \d+ of \d+$']
+ */
+export interface CustomCleanerDefinition {
+	/** Display name, also saved to frontmatter when the user picks this format */
+	name: string;
+	/** Regex tested against the whole transcript - the cleaner only applies if it matches */
+	detect: string;
+	/** Regex for a line that starts a speaker turn. Named groups: speaker (required), timestamp, content */
+	speakerLine: string;
+	/** Regex for a timestamp-only line that precedes a speaker line. Named group: timestamp */
+	timestampLine?: string;
+	/** Regexes for lines to drop (page headers, separators, ...) */
+	ignore?: string[];
+	/** Confidence reported when detect matches, 0-1 (default 0.9) */
+	priority?: number;
+	/** Extra regex flags applied to every pattern, e.g. "i" */
+	flags?: string;
+}
+
+const DEFAULT_PRIORITY = 0.9;
+
+/**
+ * Transcript cleaner driven by a CustomCleanerDefinition
+ *
+ * Lines matching speakerLine start a new turn; any other (non-ignored) line is
+ * content for the current speaker. Consecutive turns by the same speaker are merged.
+ */
+export class RegexTranscriptCleaner implements TranscriptCleaner {
+	private name: string;
+	private priority: number;
+	private detectPattern: RegExp;
+	private speakerPattern: RegExp;
+	private timestampPattern: RegExp | null;
+	private ignorePatterns: RegExp[];
+
+	/**
+	 * @throws Error if a pattern is not a valid regex, speakerLine has no speaker group or priority is out of range
+	 */
+	constructor(definition: CustomCleanerDefinition) {
+		if (!definition.name || typeof definition.name !== 'string') {
+			throw new Error('Custom cleaner is missing a name');
+		}
+
+		const flags = (definition.flags || '').replace(/[gm]/g, '');
+
+		this.name = definition.name;
+		this.priority = definition.priority ?? DEFAULT_PRIORITY;
+		// Confidences above 1 would all tie with each other and force the format picker
+		if (typeof this.priority !== 'number' || !(this.priority > 0 && this.priority <= 1)) {
+			throw new Error(`${this.name}: priority must be a number above 0 and at most 1 (got ${JSON.stringify(definition.priority)})`);
+		}
+		this.detectPattern = this.compile('detect', definition.detect, flags + 'm');
+		this.speakerPattern = this.compile('speakerLine', definition.speakerLine, flags);
+		this.timestampPattern = definition.timestampLine
+			? this.compile('timestampLine', definition.timestampLine, flags)
+			: null;
+		this.ignorePatterns = (definition.ignore || []).map(p => this.compile('ignore', p, flags));
+
+		if (!this.speakerPattern.source.includes('(?<speaker>')) {
+			throw new Error(`${this.name}: speakerLine needs a (?<speaker>...) group`);
+		}
+	}
+
+	getName(): string {
+		return this.name;
+	}
+
+	canHandle(content: string): boolean {
+		return this.getConfidence(content) > 0;
+	}
+
+	getConfidence(content: string): number {
+		return this.detectPattern.test(content) ? this.priority : 0;
+	}
+
+	clean(content: string): string {
+		return renderTranscript(this.parse(content));
+	}
+
+	parse(content: string): SpeakerEntry[] {
+		const lines = content.split('\n');
+		const entries: SpeakerEntry[] = [];
+
+		let currentSpeaker = '';
+		let currentStart: number | undefined;
+		let currentContent: string[] = [];
+		let pendingTimestamp: number | undefined;
+
+		for (const line of lines) {
+			const trimmed = line.trim();
+
+			if (!trimmed || this.ignorePatterns.some(p => p.test(trimmed))) {
+				continue;
+			}
+
+			// Timestamp on its own line - applies to the next speaker line
+			const timestampMatch = this.timestampPattern ? trimmed.match(this.timestampPattern) : null;
+			if (timestampMatch) {
+				pendingTimestamp = parseTimestamp(timestampMatch.groups?.timestamp || timestampMatch[0]);
+				continue;
+			}
+
+			const speakerMatch = trimmed.match(this.speakerPattern);
+			const speaker = speakerMatch?.groups?.speaker?.trim();
+			if (speakerMatch && speaker) {
+				const start = speakerMatch.groups?.timestamp
+					? parseTimestamp(speakerMatch.groups.timestamp)
+					: pendingTimestamp;
+				pendingTimestamp = undefined;
+
+				// Merge consecutive lines from the same speaker
+				if (speaker !== currentSpeaker) {
+					if (currentSpeaker && currentContent.length > 0) {
+						entries.push({
+							speaker: currentSpeaker,
+							content: currentContent.join('\n').trim(),
+							start: currentStart
+						});
+					}
+
+					currentSpeaker = speaker;
+					currentStart = start;
+					currentContent = [];
+				}
+
+				const text = speakerMatch.groups?.content?.trim();
+				if (text) {
+					currentContent.push(text);
+				}
+				continue;
+			}
+
+			// Content line for the current speaker
+			if (currentSpeaker) {
+				currentContent.push(trimmed);
+			}
+		}
+
+		// Save last speaker's content
+		if (currentSpeaker && currentContent.length > 0) {
+			entries.push({
+				speaker: currentSpeaker,
+				content: currentContent.join('\n').trim(),
+				start: currentStart
+			});
+		}
+
+		return fillEndTimes(entries);
+	}
+
+	private compile(field: string, pattern: string | undefined, flags: string): RegExp {
+		if (!pattern || typeof pattern !== 'string') {
+			throw new Error(`${this.name || 'Custom cleaner'}: missing ${field} pattern`);
+		}
+
+		try {
+			return new RegExp(pattern, flags);
+		} catch (error) {
+			throw new Error(`${this.name}: invalid ${field} pattern: ${error.message}`);
+		}
+	}
+}
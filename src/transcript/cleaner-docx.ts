@@ -1,4 +1,6 @@
 import { TranscriptCleaner, SpeakerEntry } from './types';
+import { renderTranscript } from './renderer';
+import { parseTimestamp, fillEndTimes } from './timestamps';
 
 /**
  * Format 3: .docx Exported
@@ -23,6 +25,10 @@ export class TeamsDocxCleaner implements TranscriptCleaner {
 	}
 
 	canHandle(content: string): boolean {
+		return this.getConfidence(content) > 0;
+	}
+
+	getConfidence(content: string): number {
 		// Check for timestamp pattern without special markers
 		const timestampPattern = /\d{1,2}:\d{2}\s+[AP]M/;
 		// Check for leading whitespace (common in docx exports)
@@ -33,17 +39,40 @@ export class TeamsDocxCleaner implements TranscriptCleaner {
 		const hasTeamsUrl = /teams\.microsoft\.com/.test(content);
 		const hasBoldMarker = /\*\*[^*]+\*\*/.test(content);
 		
-		return timestampPattern.test(content) && 
-		       !hasTeamsUrl && 
-		       !hasBoldMarker &&
-		       leadingWhitespace.test(content);
+		if (!timestampPattern.test(content) || 
+		    hasTeamsUrl || 
+		    hasBoldMarker ||
+		    !leadingWhitespace.test(content)) {
+			return 0;
+		}
+
+		// A single "10:30 AM" and some indentation is weak evidence - scale by
+		// how many lines actually look like "Speaker Name 10:30 AM"
+		// (every word of the name capitalized, so "We met at 10:30 AM" doesn't count)
+		const lines = content.split('\n').map(l => l.trim()).filter(l => l.length > 0);
+		const speakerLines = lines.filter(l => {
+			const info = this.extractSpeakerInfo(l);
+			return info !== null && /^[A-Z][a-zA-Z'-]*(\s+[A-Z][a-zA-Z'-]*){0,3}$/.test(info.speaker);
+		}).length;
+		if (speakerLines === 0) {
+			return 0.2;
+		}
+
+		// Roughly one speaker line per turn (speaker line + content line)
+		const ratio = Math.min(1, (speakerLines * 2) / lines.length);
+		return 0.3 + 0.5 * ratio;
 	}
 
 	clean(content: string): string {
+		return renderTranscript(this.parse(content));
+	}
+
+	parse(content: string): SpeakerEntry[] {
 		const lines = content.split('\n');
 		const entries: SpeakerEntry[] = [];
 		
 		let currentSpeaker = '';
+		let currentStart: number | undefined;
 		let currentContent: string[] = [];
 
 		for (const line of lines) {
@@ -62,12 +91,14 @@ export class TeamsDocxCleaner implements TranscriptCleaner {
 				if (currentSpeaker && currentContent.length > 0) {
 					entries.push({
 						speaker: currentSpeaker,
-						content: currentContent.join('\n').trim()
+						content: currentContent.join('\n').trim(),
+						start: currentStart
 					});
 				}
 
 				// Start new speaker
 				currentSpeaker = speakerInfo.speaker;
+				currentStart = speakerInfo.start;
 				currentContent = [];
 				
 				// If there's content on the same line after the timestamp, include it
@@ -87,14 +118,15 @@ export class TeamsDocxCleaner implements TranscriptCleaner {
 		if (currentSpeaker && currentContent.length > 0) {
 			entries.push({
 				speaker: currentSpeaker,
-				content: currentContent.join('\n').trim()
+				content: currentContent.join('\n').trim(),
+				start: currentStart
 			});
 		}
 
-		return this.formatEntries(entries);
+		return fillEndTimes(entries);
 	}
 
-	private extractSpeakerInfo(line: string): { speaker: string; remainingContent?: string } | null {
+	private extractSpeakerInfo(line: string): { speaker: string; start?: number; remainingContent?: string } | null {
 		// Match patterns like:
 		// "John Smith 10:30 AM"
 		// "John Smith 10:30 AM - Hello everyone"
@@ -109,27 +141,11 @@ export class TeamsDocxCleaner implements TranscriptCleaner {
 			
 			return {
 				speaker,
+				start: parseTimestamp(match[2]),
 				remainingContent: remainingContent || undefined
 			};
 		}
 
 		return null;
 	}
-
-	private formatEntries(entries: SpeakerEntry[]): string {
-		const formatted: string[] = [];
-
-		for (const entry of entries) {
-			formatted.push(entry.speaker);
-			formatted.push(entry.content);
-			formatted.push(''); // Blank line between speakers
-		}
-
-		// Remove trailing blank line
-		while (formatted.length > 0 && formatted[formatted.length - 1] === '') {
-			formatted.pop();
-		}
-
-		return formatted.join('\n');
-	}
 }
@@ -1,4 +1,6 @@
 import { TranscriptCleaner, SpeakerEntry } from './types';
+import { renderTranscript } from './renderer';
+import { parseTimestamp, fillEndTimes } from './timestamps';
 
 /**
  * Format 2: Downloaded from Teams
@@ -22,16 +24,32 @@ export class TeamsDownloadedCleaner implements TranscriptCleaner {
 	}
 
 	canHandle(content: string): boolean {
+		return this.getConfidence(content) > 0;
+	}
+
+	getConfidence(content: string): number {
 		// Check for bold speaker with timestamp pattern
-		const pattern = /\*\*[^*]+\*\*\s+\d{1,2}:\d{2}\s+[AP]M/;
-		return pattern.test(content);
+		const pattern = /\*\*[^*]+\*\*\s+\d{1,2}:\d{2}\s+[AP]M/g;
+		const matches = content.match(pattern) || [];
+		
+		if (matches.length === 0) {
+			return 0;
+		}
+
+		// More bold speaker lines = more certain
+		return 0.7 + 0.25 * Math.min(1, matches.length / 5);
 	}
 
 	clean(content: string): string {
+		return renderTranscript(this.parse(content));
+	}
+
+	parse(content: string): SpeakerEntry[] {
 		const lines = content.split('\n');
 		const entries: SpeakerEntry[] = [];
 		
 		let currentSpeaker = '';
+		let currentStart: number | undefined;
 		let currentContent: string[] = [];
 
 		for (const line of lines) {
@@ -49,12 +67,14 @@ export class TeamsDownloadedCleaner implements TranscriptCleaner {
 				if (currentSpeaker && currentContent.length > 0) {
 					entries.push({
 						speaker: currentSpeaker,
-						content: currentContent.join('\n').trim()
+						content: currentContent.join('\n').trim(),
+						start: currentStart
 					});
 				}
 
 				// Start new speaker
-				currentSpeaker = speakerMatch;
+				currentSpeaker = speakerMatch.speaker;
+				currentStart = speakerMatch.start;
 				currentContent = [];
 				continue;
 			}
@@ -69,47 +89,31 @@ export class TeamsDownloadedCleaner implements TranscriptCleaner {
 		if (currentSpeaker && currentContent.length > 0) {
 			entries.push({
 				speaker: currentSpeaker,
-				content: currentContent.join('\n').trim()
+				content: currentContent.join('\n').trim(),
+				start: currentStart
 			});
 		}
 
-		return this.formatEntries(entries);
+		return fillEndTimes(entries);
 	}
 
-	private extractSpeaker(line: string): string | null {
+	private extractSpeaker(line: string): { speaker: string; start?: number } | null {
 		// Match: **Speaker Name** HH:MM AM/PM
-		const pattern = /\*\*([^*]+)\*\*\s+\d{1,2}:\d{2}\s+[AP]M/;
+		const pattern = /\*\*([^*]+)\*\*\s+(\d{1,2}:\d{2}\s+[AP]M)/;
 		const match = line.match(pattern);
 		
 		if (match) {
-			return match[1].trim();
+			return { speaker: match[1].trim(), start: parseTimestamp(match[2]) };
 		}
 
 		// Also try HTML bold tags: <b>Speaker Name</b> HH:MM AM/PM
-		const htmlPattern = /<b>([^<]+)<\/b>\s+\d{1,2}:\d{2}\s+[AP]M/;
+		const htmlPattern = /<b>([^<]+)<\/b>\s+(\d{1,2}:\d{2}\s+[AP]M)/;
 		const htmlMatch = line.match(htmlPattern);
 		
 		if (htmlMatch) {
-			return htmlMatch[1].trim();
+			return { speaker: htmlMatch[1].trim(), start: parseTimestamp(htmlMatch[2]) };
 		}
 
 		return null;
 	}
-
-	private formatEntries(entries: SpeakerEntry[]): string {
-		const formatted: string[] = [];
-
-		for (const entry of entries) {
-			formatted.push(entry.speaker);
-			formatted.push(entry.content);
-			formatted.push(''); // Blank line between speakers
-		}
-
-		// Remove trailing blank line
-		while (formatted.length > 0 && formatted[formatted.length - 1] === '') {
-			formatted.pop();
-		}
-
-		return formatted.join('\n');
-	}
 }
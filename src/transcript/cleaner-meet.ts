@@ -0,0 +1,162 @@
+import { TranscriptCleaner, SpeakerEntry } from './types';
+import { renderTranscript } from './renderer';
+import { parseTimestamp } from './timestamps';
+
+/**
+ * Format 8: Google Meet Transcript (Google Docs)
+ *
+ * Characteristics:
+ * - Title line ending in "- Transcript" and an "Attendees" block
+ * - Standalone "HH:MM:SS" timestamp lines every few minutes
+ * - Speaker and content on the same line: "Speaker Name: text"
+ * - Footer: "Meeting ended after HH:MM:SS" and a computer-generated disclaimer
+ *
+ * Example:
+ * Weekly Sync (2026-02-05 at 10:00 GMT-5) - Transcript
+ * Attendees
+ * John Smith, Jane Doe
+ * Transcript
+ * 00:00:00
+ *
+ * John Smith: Hello everyone
+ * Jane Doe: Hi John!
+ */
+export class GoogleMeetCleaner implements TranscriptCleaner {
+
+	getName(): string {
+		return 'Google Meet Transcript (Format 8)';
+	}
+
+	canHandle(content: string): boolean {
+		return this.getConfidence(content) > 0;
+	}
+
+	getConfidence(content: string): number {
+		// Google Docs boilerplate is a definite match
+		const boilerplatePattern = /This editable transcript was computer generated|^Meeting ended after \d{1,2}:\d{2}:\d{2}/m;
+		if (boilerplatePattern.test(content)) {
+			return 0.95;
+		}
+
+		// Otherwise require standalone timestamp markers plus "Speaker: text" paragraphs
+		const timestampLinePattern = /^\s*\d{1,2}:\d{2}:\d{2}\s*$/m;
+		const speakerLines = content.split('\n').filter(l => this.extractSpeakerAndContent(l.trim()) !== null);
+
+		if (!timestampLinePattern.test(content) || speakerLines.length < 2) {
+			return 0;
+		}
+
+		return 0.6 + 0.3 * Math.min(1, speakerLines.length / 10);
+	}
+
+	clean(content: string): string {
+		return renderTranscript(this.parse(content));
+	}
+
+	parse(content: string): SpeakerEntry[] {
+		const lines = content.split('\n');
+		const entries: SpeakerEntry[] = [];
+
+		let currentSpeaker = '';
+		let currentStart: number | undefined;
+		let currentContent: string[] = [];
+		let skipAttendeeList = false;
+		let lastMarker: number | undefined;
+
+		for (const line of lines) {
+			const trimmed = line.trim();
+
+			// Skip empty lines
+			if (!trimmed) {
+				continue;
+			}
+
+			// The line after the "Attendees" header is the comma-separated attendee list
+			if (skipAttendeeList) {
+				skipAttendeeList = false;
+				continue;
+			}
+			if (/^Attendees$/i.test(trimmed)) {
+				skipAttendeeList = true;
+				continue;
+			}
+
+			// Timestamp markers are the only timing Meet provides -
+			// turns that start after a marker are stamped with it
+			if (/^\d{1,2}:\d{2}:\d{2}$/.test(trimmed)) {
+				lastMarker = parseTimestamp(trimmed);
+				continue;
+			}
+
+			// Skip document header and footer
+			if (this.isBoilerplateLine(trimmed)) {
+				continue;
+			}
+
+			const extracted = this.extractSpeakerAndContent(trimmed);
+			if (extracted) {
+				// Meet splits long turns at the timestamp markers - merge them back
+				if (extracted.speaker !== currentSpeaker) {
+					if (currentSpeaker && currentContent.length > 0) {
+						entries.push({
+							speaker: currentSpeaker,
+							content: currentContent.join('\n').trim(),
+							start: currentStart
+						});
+					}
+
+					currentSpeaker = extracted.speaker;
+					currentStart = lastMarker;
+					currentContent = [];
+				}
+
+				currentContent.push(extracted.content);
+				continue;
+			}
+
+			// This is content for the current speaker
+			if (currentSpeaker) {
+				currentContent.push(trimmed);
+			}
+		}
+
+		// Save last speaker's content
+		if (currentSpeaker && currentContent.length > 0) {
+			entries.push({
+				speaker: currentSpeaker,
+				content: currentContent.join('\n').trim(),
+				start: currentStart
+			});
+		}
+
+		// Markers are minutes apart, so end times can't be inferred reliably
+		return entries;
+	}
+
+	private isBoilerplateLine(line: string): boolean {
+		return /\s-\sTranscript$/.test(line) ||               // Document title
+		       /^Transcript$/i.test(line) ||                  // Section heading
+		       /^Meeting ended after\s/.test(line) ||         // Footer
+		       /^This editable transcript was computer generated/.test(line);
+	}
+
+	private extractSpeakerAndContent(line: string): { speaker: string; content: string } | null {
+		// Match: "Speaker Name: text"
+		const match = line.match(/^([A-Z][^:]{0,79}?):\s+(.+)$/);
+		if (!match) {
+			return null;
+		}
+
+		const speaker = match[1].trim();
+
+		// Avoid treating sentences with a colon as speaker lines
+		if (speaker.split(/\s+/).length > 6 || /[.!?]$/.test(speaker)) {
+			return null;
+		}
+
+		return {
+			speaker,
+			content: match[2].trim()
+		};
+	}
+}
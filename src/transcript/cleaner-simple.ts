@@ -1,4 +1,6 @@
 import { TranscriptCleaner, SpeakerEntry } from './types';
+import { renderTranscript } from './renderer';
+import { parseTimestamp, fillEndTimes } from './timestamps';
 
 /**
  * Format 4: Simple/Generic
@@ -26,11 +28,21 @@ export class SimpleTranscriptCleaner implements TranscriptCleaner {
 		return true;
 	}
 
+	getConfidence(content: string): number {
+		// Lowest non-zero score so any specific format wins
+		return 0.1;
+	}
+
 	clean(content: string): string {
+		return renderTranscript(this.parse(content));
+	}
+
+	parse(content: string): SpeakerEntry[] {
 		const lines = content.split('\n');
 		const entries: SpeakerEntry[] = [];
 		
 		let currentSpeaker = '';
+		let currentStart: number | undefined;
 		let currentContent: string[] = [];
 
 		for (const line of lines) {
@@ -49,11 +61,13 @@ export class SimpleTranscriptCleaner implements TranscriptCleaner {
 				if (currentSpeaker && currentContent.length > 0) {
 					entries.push({
 						speaker: currentSpeaker,
-						content: currentContent.join('\n').trim()
+						content: currentContent.join('\n').trim(),
+						start: currentStart
 					});
 				}
 
 				currentSpeaker = extracted.speaker;
+				currentStart = this.extractTimestamp(trimmed);
 				currentContent = extracted.content ? [extracted.content] : [];
 			} else {
 				// This is content for the current speaker
@@ -67,11 +81,12 @@ export class SimpleTranscriptCleaner implements TranscriptCleaner {
 		if (currentSpeaker && currentContent.length > 0) {
 			entries.push({
 				speaker: currentSpeaker,
-				content: currentContent.join('\n').trim()
+				content: currentContent.join('\n').trim(),
+				start: currentStart
 			});
 		}
 
-		return this.formatEntries(entries);
+		return fillEndTimes(entries);
 	}
 
 	private extractSpeakerAndContent(line: string): { speaker: string; content?: string } | null {
@@ -107,6 +122,25 @@ export class SimpleTranscriptCleaner implements TranscriptCleaner {
 		return null;
 	}
 
+	private extractTimestamp(line: string): number | undefined {
+		// Same patterns removeTimestamps strips, most specific first
+		const patterns = [
+			/\[(\d{1,2}:\d{2}(?::\d{2})?)\]/,
+			/\((\d{1,2}:\d{2}(?::\d{2})?)\)/,
+			/(\d{1,2}:\d{2}\s*[AP]M)/i,
+			/^(\d{1,2}:\d{2}(?::\d{2})?)\s+/
+		];
+
+		for (const pattern of patterns) {
+			const match = line.match(pattern);
+			if (match) {
+				return parseTimestamp(match[1]);
+			}
+		}
+
+		return undefined;
+	}
+
 	private removeTimestamps(line: string): string {
 		// Remove [HH:MM] or [HH:MM:SS]
 		line = line.replace(/\[\d{1,2}:\d{2}(:\d{2})?\]/g, '');
@@ -122,21 +156,4 @@ export class SimpleTranscriptCleaner implements TranscriptCleaner {
 		
 		return line.trim();
 	}
-
-	private formatEntries(entries: SpeakerEntry[]): string {
-		const formatted: string[] = [];
-
-		for (const entry of entries) {
-			formatted.push(entry.speaker);
-			formatted.push(entry.content);
-			formatted.push(''); // Blank line between speakers
-		}
-
-		// Remove trailing blank line
-		while (formatted.length > 0 && formatted[formatted.length - 1] === '') {
-			formatted.pop();
-		}
-
-		return formatted.join('\n');
-	}
 }
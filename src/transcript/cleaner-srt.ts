@@ -0,0 +1,181 @@
+import { TranscriptCleaner, SpeakerEntry } from './types';
+import { renderTranscript } from './renderer';
+import { parseTimestamp } from './timestamps';
+import { findLabelledSpeakers, splitSpeakerLabel } from './speaker-labels';
+
+/**
+ * Format 6: SubRip Subtitles (.srt)
+ *
+ * Characteristics:
+ * - Numbered cue blocks separated by blank lines
+ * - Timing line: "HH:MM:SS,mmm --> HH:MM:SS,mmm"
+ * - Speaker as a "Speaker: text" prefix, a "[Speaker]" prefix,
+ *   or a "<v Speaker>" voice tag (Teams/Zoom exports)
+ *
+ * Example:
+ * 1
+ * 00:00:01,000 --> 00:00:04,000
+ * John Smith: Hello everyone
+ *
+ * 2
+ * 00:00:04,500 --> 00:00:06,000
+ * John Smith: let's get started.
+ */
+export class SrtCleaner implements TranscriptCleaner {
+
+	getName(): string {
+		return 'SRT Subtitles (Format 6)';
+	}
+
+	canHandle(content: string): boolean {
+		return this.getConfidence(content) > 0;
+	}
+
+	getConfidence(content: string): number {
+		// Check for a numbered cue followed by an SRT timing line (uses ',' for milliseconds)
+		const cuePattern = /^\d+\s*\n\d{2}:\d{2}:\d{2},\d{3}\s+-->\s+\d{2}:\d{2}:\d{2},\d{3}/m;
+		if (!cuePattern.test(content.replace(/\r\n?/g, '\n'))) {
+			return 0;
+		}
+
+		return 0.95;
+	}
+
+	clean(content: string): string {
+		return renderTranscript(this.parse(content));
+	}
+
+	parse(content: string): SpeakerEntry[] {
+		const blocks = content.replace(/\r\n?/g, '\n').split(/\n\s*\n/);
+		const entries: SpeakerEntry[] = [];
+		const knownSpeakers = this.findKnownSpeakers(blocks);
+
+		let currentSpeaker = '';
+		let currentStart: number | undefined;
+		let currentEnd: number | undefined;
+		let currentContent: string[] = [];
+
+		for (const block of blocks) {
+			const lines = block.split('\n').map(l => l.trim()).filter(l => l.length > 0);
+
+			// Skip anything that isn't a cue block
+			const timingIndex = lines.findIndex(l => this.isTimingLine(l));
+			if (timingIndex === -1) {
+				continue;
+			}
+
+			const timing = this.parseTimingLine(lines[timingIndex]);
+
+			// Everything after the timing line is cue text
+			// (the cue number sits before it and is dropped)
+			for (const line of lines.slice(timingIndex + 1)) {
+				const cue = this.extractSpeakerAndText(line, knownSpeakers);
+				if (!cue.text) {
+					continue;
+				}
+
+				const speaker = cue.speaker || currentSpeaker || 'Unknown Speaker';
+
+				// Merge consecutive cues from the same speaker into one turn
+				if (speaker !== currentSpeaker) {
+					if (currentSpeaker && currentContent.length > 0) {
+						entries.push({
+							speaker: currentSpeaker,
+							content: currentContent.join(' ').trim(),
+							start: currentStart,
+							end: currentEnd
+						});
+					}
+
+					currentSpeaker = speaker;
+					currentStart = timing.start;
+					currentContent = [];
+				}
+
+				currentContent.push(cue.text);
+				currentEnd = timing.end;
+			}
+		}
+
+		// Save last speaker's content
+		if (currentSpeaker && currentContent.length > 0) {
+			entries.push({
+				speaker: currentSpeaker,
+				content: currentContent.join(' ').trim(),
+				start: currentStart,
+				end: currentEnd
+			});
+		}
+
+		return entries;
+	}
+
+	/**
+	 * Voice tag and "[Speaker]" speakers, plus "Speaker: text" labels that are clearly speakers
+	 */
+	private findKnownSpeakers(blocks: string[]): Set<string> {
+		const tagged: string[] = [];
+		const untagged: string[] = [];
+		for (const block of blocks) {
+			const lines = block.split('\n').map(l => l.trim()).filter(l => l.length > 0);
+			const timingIndex = lines.findIndex(l => this.isTimingLine(l));
+			if (timingIndex === -1) {
+				continue;
+			}
+			for (const line of lines.slice(timingIndex + 1)) {
+				const cue = this.extractSpeakerAndText(line, new Set());
+				if (cue.speaker) {
+					tagged.push(cue.speaker);
+				} else {
+					untagged.push(cue.text);
+				}
+			}
+		}
+		return findLabelledSpeakers(tagged, untagged);
+	}
+
+	private isTimingLine(line: string): boolean {
+		// Matches: "00:00:01,000 --> 00:00:04,000"
+		const pattern = /^\d{2}:\d{2}:\d{2},\d{3}\s+-->\s+\d{2}:\d{2}:\d{2},\d{3}/;
+		return pattern.test(line);
+	}
+
+	private parseTimingLine(line: string): { start?: number; end?: number } {
+		const match = line.match(/^(\d{2}:\d{2}:\d{2},\d{3})\s+-->\s+(\d{2}:\d{2}:\d{2},\d{3})/);
+		if (!match) {
+			return {};
+		}
+
+		return { start: parseTimestamp(match[1]), end: parseTimestamp(match[2]) };
+	}
+
+	private extractSpeakerAndText(line: string, knownSpeakers: Set<string>): { speaker?: string; text: string } {
+		let speaker: string | undefined;
+
+		// Voice tag: <v Speaker Name>
+		const voiceMatch = line.match(/<v\s+([^>]+)>/);
+		if (voiceMatch) {
+			speaker = voiceMatch[1].trim();
+		}
+
+		// Strip formatting tags (<i>, <b>, <font>, </v>) and {\an8} style overrides
+		let text = line.replace(/<[^>]*>/g, '').replace(/\{\\[^}]*\}/g, '').trim();
+
+		if (!speaker) {
+			// "[Speaker] text"
+			const bracketMatch = text.match(/^\[([^\]]+)\]\s*(.*)$/);
+			// "Speaker: text", for names known to be speakers
+			const label = splitSpeakerLabel(text);
+
+			if (bracketMatch) {
+				speaker = bracketMatch[1].trim();
+				text = bracketMatch[2].trim();
+			} else if (label && knownSpeakers.has(label.label)) {
+				speaker = label.label;
+				text = label.text;
+			}
+		}
+
+		return { speaker, text };
+	}
+}
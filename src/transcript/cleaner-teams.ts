@@ -1,4 +1,6 @@
 import { TranscriptCleaner, SpeakerEntry } from './types';
+import { renderTranscript } from './renderer';
+import { parseTimestamp, fillEndTimes } from './timestamps';
 
 /**
  * Format 1: Direct Teams Paste
@@ -24,19 +26,33 @@ export class TeamsDirectPasteCleaner implements TranscriptCleaner {
 	}
 
 	canHandle(content: string): boolean {
+		return this.getConfidence(content) > 0;
+	}
+
+	getConfidence(content: string): number {
 		// Check for Teams URL pattern with arrow
 		const teamsUrlPattern = /→\s*https:\/\/teams\.microsoft\.com/;
 		// Check for timestamp format with AM/PM
 		const timestampPattern = /\d{1,2}:\d{2}:\d{2}\s+[AP]M/;
 		
-		return teamsUrlPattern.test(content) && timestampPattern.test(content);
+		if (!teamsUrlPattern.test(content) || !timestampPattern.test(content)) {
+			return 0;
+		}
+
+		// The timestamp + Teams URL line is unique to this format
+		return 0.95;
 	}
 
 	clean(content: string): string {
+		return renderTranscript(this.parse(content));
+	}
+
+	parse(content: string): SpeakerEntry[] {
 		const lines = content.split('\n');
 		const entries: SpeakerEntry[] = [];
 		
 		let currentSpeaker = '';
+		let currentStart: number | undefined;
 		let currentContent: string[] = [];
 		let skipNextLine = false;
 
@@ -66,12 +82,14 @@ export class TeamsDirectPasteCleaner implements TranscriptCleaner {
 				if (currentSpeaker && currentContent.length > 0) {
 					entries.push({
 						speaker: currentSpeaker,
-						content: currentContent.join('\n').trim()
+						content: currentContent.join('\n').trim(),
+						start: currentStart
 					});
 				}
 
 				// Start new speaker
 				currentSpeaker = line;
+				currentStart = this.extractTime(nextLine);
 				currentContent = [];
 				skipNextLine = true;
 				continue;
@@ -87,11 +105,12 @@ export class TeamsDirectPasteCleaner implements TranscriptCleaner {
 		if (currentSpeaker && currentContent.length > 0) {
 			entries.push({
 				speaker: currentSpeaker,
-				content: currentContent.join('\n').trim()
+				content: currentContent.join('\n').trim(),
+				start: currentStart
 			});
 		}
 
-		return this.formatEntries(entries);
+		return fillEndTimes(entries);
 	}
 
 	private isTimestampLine(line: string): boolean {
@@ -100,20 +119,8 @@ export class TeamsDirectPasteCleaner implements TranscriptCleaner {
 		return pattern.test(line);
 	}
 
-	private formatEntries(entries: SpeakerEntry[]): string {
-		const formatted: string[] = [];
-
-		for (const entry of entries) {
-			formatted.push(entry.speaker);
-			formatted.push(entry.content);
-			formatted.push(''); // Blank line between speakers
-		}
-
-		// Remove trailing blank line
-		while (formatted.length > 0 && formatted[formatted.length - 1] === '') {
-			formatted.pop();
-		}
-
-		return formatted.join('\n');
+	private extractTime(line: string): number | undefined {
+		const match = line.match(/^(\d{1,2}:\d{2}:\d{2}\s+[AP]M)/);
+		return match ? parseTimestamp(match[1]) : undefined;
 	}
 }
@@ -0,0 +1,190 @@
+import { TranscriptCleaner, SpeakerEntry } from './types';
+import { renderTranscript } from './renderer';
+import { parseTimestamp } from './timestamps';
+import { findLabelledSpeakers, splitSpeakerLabel } from './speaker-labels';
+
+/**
+ * Format 5: WebVTT Captions (.vtt)
+ *
+ * Characteristics:
+ * - "WEBVTT" header line
+ * - Cue blocks separated by blank lines
+ * - Optional cue identifier line before the timing line
+ * - Timing line: "HH:MM:SS.mmm --> HH:MM:SS.mmm" (hours optional)
+ * - Speaker in a voice tag: "<v Speaker Name>text</v>"
+ *
+ * Example:
+ * WEBVTT
+ *
+ * 1a2b3c4d-1
+ * 00:00:01.000 --> 00:00:04.000
+ * <v John Smith>Hello everyone</v>
+ *
+ * 1a2b3c4d-2
+ * 00:00:04.500 --> 00:00:06.000
+ * <v John Smith>let's get started.</v>
+ */
+export class WebVttCleaner implements TranscriptCleaner {
+
+	getName(): string {
+		return 'WebVTT Captions (Format 5)';
+	}
+
+	canHandle(content: string): boolean {
+		return this.getConfidence(content) > 0;
+	}
+
+	getConfidence(content: string): number {
+		// Check for the WEBVTT header (optionally preceded by a BOM)
+		const headerPattern = /^\uFEFF?WEBVTT\b/;
+		// Check for at least one VTT timing line (uses '.' for milliseconds)
+		const timingPattern = /(?:\d{2}:)?\d{2}:\d{2}\.\d{3}\s+-->\s+(?:\d{2}:)?\d{2}:\d{2}\.\d{3}/;
+
+		if (!headerPattern.test(content.trim()) || !timingPattern.test(content)) {
+			return 0;
+		}
+
+		return 1;
+	}
+
+	clean(content: string): string {
+		return renderTranscript(this.parse(content));
+	}
+
+	parse(content: string): SpeakerEntry[] {
+		const blocks = content.replace(/\r\n?/g, '\n').split(/\n\s*\n/);
+		const entries: SpeakerEntry[] = [];
+		const knownSpeakers = this.findKnownSpeakers(blocks);
+
+		let currentSpeaker = '';
+		let currentStart: number | undefined;
+		let currentEnd: number | undefined;
+		let currentContent: string[] = [];
+
+		for (const block of blocks) {
+			const lines = block.split('\n').map(l => l.trim()).filter(l => l.length > 0);
+
+			// Only cue blocks have a timing line - this skips the header,
+			// NOTE, STYLE and REGION blocks
+			const timingIndex = lines.findIndex(l => this.isTimingLine(l));
+			if (timingIndex === -1) {
+				continue;
+			}
+
+			const timing = this.parseTimingLine(lines[timingIndex]);
+
+			// Everything after the timing line is cue payload
+			// (the optional cue identifier sits before it and is dropped)
+			for (const line of lines.slice(timingIndex + 1)) {
+				const cue = this.extractSpeakerAndText(line, knownSpeakers);
+				if (!cue.text) {
+					continue;
+				}
+
+				const speaker = cue.speaker || currentSpeaker || 'Unknown Speaker';
+
+				// Merge consecutive cues from the same speaker into one turn
+				if (speaker !== currentSpeaker) {
+					if (currentSpeaker && currentContent.length > 0) {
+						entries.push({
+							speaker: currentSpeaker,
+							content: currentContent.join(' ').trim(),
+							start: currentStart,
+							end: currentEnd
+						});
+					}
+
+					currentSpeaker = speaker;
+					currentStart = timing.start;
+					currentContent = [];
+				}
+
+				currentContent.push(cue.text);
+				currentEnd = timing.end;
+			}
+		}
+
+		// Save last speaker's content
+		if (currentSpeaker && currentContent.length > 0) {
+			entries.push({
+				speaker: currentSpeaker,
+				content: currentContent.join(' ').trim(),
+				start: currentStart,
+				end: currentEnd
+			});
+		}
+
+		return entries;
+	}
+
+	/**
+	 * Voice tag speakers, plus "Speaker: text" labels that are clearly speakers
+	 */
+	private findKnownSpeakers(blocks: string[]): Set<string> {
+		const tagged: string[] = [];
+		const untagged: string[] = [];
+		for (const block of blocks) {
+			const lines = block.split('\n').map(l => l.trim()).filter(l => l.length > 0);
+			const timingIndex = lines.findIndex(l => this.isTimingLine(l));
+			if (timingIndex === -1) {
+				continue;
+			}
+			for (const line of lines.slice(timingIndex + 1)) {
+				const cue = this.extractSpeakerAndText(line, new Set());
+				if (cue.speaker) {
+					tagged.push(cue.speaker);
+				} else {
+					untagged.push(cue.text);
+				}
+			}
+		}
+		return findLabelledSpeakers(tagged, untagged);
+	}
+
+	private isTimingLine(line: string): boolean {
+		// Matches: "00:00:01.000 --> 00:00:04.000" with optional cue settings after
+		const pattern = /^(?:\d{2}:)?\d{2}:\d{2}\.\d{3}\s+-->\s+(?:\d{2}:)?\d{2}:\d{2}\.\d{3}/;
+		return pattern.test(line);
+	}
+
+	private parseTimingLine(line: string): { start?: number; end?: number } {
+		const match = line.match(/^((?:\d{2}:)?\d{2}:\d{2}\.\d{3})\s+-->\s+((?:\d{2}:)?\d{2}:\d{2}\.\d{3})/);
+		if (!match) {
+			return {};
+		}
+
+		return { start: parseTimestamp(match[1]), end: parseTimestamp(match[2]) };
+	}
+
+	private extractSpeakerAndText(line: string, knownSpeakers: Set<string>): { speaker?: string; text: string } {
+		let speaker: string | undefined;
+
+		// Voice tag: <v Speaker Name> or <v.class Speaker Name>
+		const voiceMatch = line.match(/<v(?:\.[^\s>]+)?\s+([^>]+)>/);
+		if (voiceMatch) {
+			speaker = voiceMatch[1].trim();
+		}
+
+		// Strip all remaining markup (<v>, </v>, <c>, <i>, inline timestamps)
+		let text = line.replace(/<[^>]*>/g, '').trim();
+
+		// Some exporters use "Speaker: text" instead of voice tags
+		if (!speaker) {
+			const label = splitSpeakerLabel(text);
+			if (label && knownSpeakers.has(label.label)) {
+				speaker = label.label;
+				text = label.text;
+			}
+		}
+
+		return { speaker, text: this.decodeEntities(text) };
+	}
+
+	private decodeEntities(text: string): string {
+		return text
+			.replace(/&lt;/g, '<')
+			.replace(/&gt;/g, '>')
+			.replace(/&nbsp;/g, ' ')
+			.replace(/&amp;/g, '&');
+	}
+}
@@ -0,0 +1,144 @@
+import { TranscriptCleaner, SpeakerEntry } from './types';
+import { renderTranscript } from './renderer';
+import { parseTimestamp, fillEndTimes } from './timestamps';
+
+/**
+ * Format 7: Zoom Transcript / Chat Export
+ *
+ * Characteristics:
+ * - Every message starts with a 24-hour "HH:MM:SS" timestamp
+ * - Speaker and content on the same line: "HH:MM:SS Speaker Name: text"
+ * - Chat exports use "HH:MM:SS From Speaker Name to Everyone:" with the
+ *   message on the following (usually tab-indented) lines
+ *
+ * Example:
+ * 10:02:15 John Smith: Hello everyone
+ * 10:02:21 Jane Doe: Hi John!
+ * 10:03:02 From John Smith to Everyone:
+ * 	Here's the doc link
+ */
+export class ZoomTranscriptCleaner implements TranscriptCleaner {
+
+	getName(): string {
+		return 'Zoom Transcript/Chat (Format 7)';
+	}
+
+	canHandle(content: string): boolean {
+		return this.getConfidence(content) > 0;
+	}
+
+	getConfidence(content: string): number {
+		const lines = content.split('\n').map(l => l.trim()).filter(l => l.length > 0);
+		if (lines.length === 0) {
+			return 0;
+		}
+
+		// Zoom puts the timestamp and speaker on the same line. Require several
+		// such lines so a single timestamped sentence doesn't trigger this cleaner
+		const messageLines = lines.filter(l => this.extractMessage(l) !== null);
+		const ratio = messageLines.length / lines.length;
+		if (messageLines.length < 2 || ratio < 0.3) {
+			return 0;
+		}
+
+		return 0.5 + 0.45 * ratio;
+	}
+
+	clean(content: string): string {
+		return renderTranscript(this.parse(content));
+	}
+
+	parse(content: string): SpeakerEntry[] {
+		const lines = content.split('\n');
+		const entries: SpeakerEntry[] = [];
+
+		let currentSpeaker = '';
+		let currentStart: number | undefined;
+		let currentContent: string[] = [];
+
+		for (const line of lines) {
+			const trimmed = line.trim();
+
+			// Skip empty lines
+			if (!trimmed) {
+				continue;
+			}
+
+			const message = this.extractMessage(trimmed);
+			if (message) {
+				// Merge consecutive messages from the same speaker
+				if (message.speaker !== currentSpeaker) {
+					if (currentSpeaker && currentContent.length > 0) {
+						entries.push({
+							speaker: currentSpeaker,
+							content: currentContent.join('\n').trim(),
+							start: currentStart
+						});
+					}
+
+					currentSpeaker = message.speaker;
+					currentStart = message.start;
+					currentContent = [];
+				}
+
+				if (message.content) {
+					currentContent.push(message.content);
+				}
+				continue;
+			}
+
+			// Continuation line (chat message body or wrapped text)
+			if (currentSpeaker) {
+				currentContent.push(trimmed);
+			}
+		}
+
+		// Save last speaker's content
+		if (currentSpeaker && currentContent.length > 0) {
+			entries.push({
+				speaker: currentSpeaker,
+				content: currentContent.join('\n').trim(),
+				start: currentStart
+			});
+		}
+
+		return fillEndTimes(entries);
+	}
+
+	private extractMessage(line: string): { speaker: string; start?: number; content?: string } | null {
+		const timestampMatch = line.match(/^(\d{1,2}:\d{2}:\d{2})\s+(.*)$/);
+		if (!timestampMatch) {
+			return null;
+		}
+
+		const start = parseTimestamp(timestampMatch[1]);
+		const rest = timestampMatch[2];
+
+		// 12-hour timestamps belong to the Teams formats, not Zoom
+		if (/^[AP]M\b/i.test(rest)) {
+			return null;
+		}
+
+		// Chat export: "From Speaker Name to Everyone: optional text"
+		const chatMatch = rest.match(/^From\s+(.+?)\s+to\s+(.+?)\s*:\s*(.*)$/);
+		if (chatMatch) {
+			return {
+				speaker: chatMatch[1].trim(),
+				start,
+				content: chatMatch[3].trim() || undefined
+			};
+		}
+
+		// Transcript: "Speaker Name: text"
+		const speakerMatch = rest.match(/^([^:]{1,80}?)\s*:\s*(.*)$/);
+		if (speakerMatch && /[a-zA-Z]/.test(speakerMatch[1])) {
+			return {
+				speaker: speakerMatch[1].trim(),
+				start,
+				content: speakerMatch[2].trim() || undefined
+			};
+		}
+
+		return null;
+	}
+}
@@ -1,59 +1,134 @@
-import { TranscriptCleaner } from './types';
+import { TranscriptCleaner, SpeakerEntry, CleanerCandidate } from './types';
+import { renderTranscript } from './renderer';
 import { TeamsDirectPasteCleaner } from './cleaner-teams';
 import { TeamsDownloadedCleaner } from './cleaner-downloaded';
 import { TeamsDocxCleaner } from './cleaner-docx';
+import { WebVttCleaner } from './cleaner-vtt';
+import { SrtCleaner } from './cleaner-srt';
+import { ZoomTranscriptCleaner } from './cleaner-zoom';
+import { GoogleMeetCleaner } from './cleaner-meet';
 import { SimpleTranscriptCleaner } from './cleaner-simple';
 
+/**
+ * Scores within this margin of the best match are treated as ambiguous
+ */
+const AMBIGUITY_MARGIN = 0.15;
+
 /**
  * Detects transcript format and selects appropriate cleaner
  */
 export class TranscriptDetector {
 	private cleaners: TranscriptCleaner[];
+	private customCleaners: TranscriptCleaner[] = [];
 
 	constructor() {
-		// Order matters! Check more specific formats first
+		// Order breaks ties between equal confidence scores - more specific formats first
 		// SimpleTranscriptCleaner should be last as it's the fallback
+		// Caption files (.vtt/.srt) have unambiguous headers and timing lines
 		this.cleaners = [
+			new WebVttCleaner(),
+			new SrtCleaner(),
 			new TeamsDirectPasteCleaner(),
 			new TeamsDownloadedCleaner(),
+			// Zoom and Meet rank ahead of TeamsDocxCleaner on ties, since its
+			// timestamp + whitespace heuristic is very loose
+			new ZoomTranscriptCleaner(),
+			new GoogleMeetCleaner(),
 			new TeamsDocxCleaner(),
 			new SimpleTranscriptCleaner()
 		];
 	}
 
+	/**
+	 * Replace the user-defined cleaners (see RegexTranscriptCleaner)
+	 * They rank by their priority and win ties against built-in cleaners
+	 */
+	setCustomCleaners(cleaners: TranscriptCleaner[]): void {
+		this.customCleaners = [...cleaners];
+	}
+
 	/**
 	 * Detect the format of a transcript and return the appropriate cleaner
 	 */
 	detect(content: string): TranscriptCleaner {
-		for (const cleaner of this.cleaners) {
-			if (cleaner.canHandle(content)) {
-				console.log(`Detected transcript format: ${cleaner.getName()}`);
-				return cleaner;
-			}
+		const ranked = this.rank(content);
+		if (ranked.length > 0) {
+			console.log(`Detected transcript format: ${ranked[0].cleaner.getName()} (confidence ${ranked[0].confidence.toFixed(2)})`);
+			return ranked[0].cleaner;
 		}
 
-		// Should never reach here since SimpleTranscriptCleaner always returns true
+		// Should never reach here since SimpleTranscriptCleaner always scores above 0
 		// But return it as ultimate fallback
 		return this.cleaners[this.cleaners.length - 1];
 	}
 
+	/**
+	 * Score every cleaner against the content, best match first
+	 * Cleaners that cannot handle the content are left out
+	 */
+	rank(content: string): CleanerCandidate[] {
+		const candidates = this.getAvailableCleaners()
+			.map((cleaner, index) => ({ cleaner, confidence: cleaner.getConfidence(content), index }))
+			.filter(c => c.confidence > 0);
+
+		// Sort by confidence, keeping registration order for ties
+		candidates.sort((a, b) => (b.confidence - a.confidence) || (a.index - b.index));
+
+		return candidates.map(({ cleaner, confidence }) => ({ cleaner, confidence }));
+	}
+
+	/**
+	 * Get the candidates that are too close to call, or an empty list
+	 * when the best match is a clear winner
+	 */
+	getAmbiguousCandidates(content: string): CleanerCandidate[] {
+		const ranked = this.rank(content);
+		if (ranked.length < 2) {
+			return [];
+		}
+
+		const best = ranked[0].confidence;
+		const close = ranked.filter(c => best - c.confidence < AMBIGUITY_MARGIN);
+
+		return close.length >= 2 ? close : [];
+	}
+
+	/**
+	 * Find a cleaner by its display name
+	 */
+	getCleanerByName(name: string): TranscriptCleaner | undefined {
+		return this.getAvailableCleaners().find(c => c.getName() === name);
+	}
+
 	/**
 	 * Detect format and clean transcript in one call
 	 */
 	detectAndClean(content: string): { cleaner: string; cleaned: string } {
-		const cleaner = this.detect(content);
-		const cleaned = cleaner.clean(content);
+		const result = this.detectAndParse(content);
+		
+		return {
+			cleaner: result.cleaner,
+			cleaned: renderTranscript(result.entries)
+		};
+	}
+
+	/**
+	 * Detect format and parse transcript into speaker entries in one call
+	 * Pass a cleaner to skip detection (e.g. one the user picked)
+	 */
+	detectAndParse(content: string, cleaner?: TranscriptCleaner): { cleaner: string; entries: SpeakerEntry[] } {
+		const selected = cleaner || this.detect(content);
 		
 		return {
-			cleaner: cleaner.getName(),
-			cleaned
+			cleaner: selected.getName(),
+			entries: selected.parse(content)
 		};
 	}
 
 	/**
-	 * Get all available cleaners
+	 * Get all available cleaners, user-defined first
 	 */
 	getAvailableCleaners(): TranscriptCleaner[] {
-		return [...this.cleaners];
+		return [...this.customCleaners, ...this.cleaners];
 	}
 }
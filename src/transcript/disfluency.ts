@@ -0,0 +1,181 @@
+import { SpeakerEntry } from './types';
+import { MeetingProcessorSettings } from '../ui/settings-tab';
+
+/**
+ * Turns made up only of these words are acknowledgements, not contributions
+ */
+const BACKCHANNEL_WORDS = [
+	'yeah', 'yep', 'yes', 'yup', 'ok', 'okay', 'right', 'sure', 'mhm', 'mm-hmm',
+	'uh-huh', 'got it', 'cool', 'great', 'nice', 'alright', 'all right', 'true', 'exactly'
+];
+
+/**
+ * Stands in for a filler removed from the start of a sentence until the text is tidied
+ */
+const SENTENCE_START = '\u0001';
+
+/**
+ * Words that are often repeated on purpose ("I know that that works", "we had had")
+ */
+const INTENTIONAL_REPEATS = ['that', 'had', 'is', 'do', 'very', 'really', 'so', 'no', 'bye', 'many', 'far', 'long'];
+
+/**
+ * Post-processing pass that runs after any TranscriptCleaner
+ *
+ * - Strips filler words ("um", "uh", ...); phrases such as "you know" only
+ *   when they stand alone between commas or sentence breaks
+ * - Collapses stuttered words ("I I think", "the- the")
+ * - Optionally folds one-word backchannel turns ("Yeah.", "Okay") into the
+ *   surrounding speaker's turn
+ */
+export class DisfluencyFilter {
+	private settings: MeetingProcessorSettings;
+
+	constructor(settings: MeetingProcessorSettings) {
+		this.settings = settings;
+	}
+
+	/**
+	 * Apply the configured cleanup to parsed speaker entries
+	 */
+	apply(entries: SpeakerEntry[]): SpeakerEntry[] {
+		const fillerPattern = this.buildFillerPattern();
+
+		let result = entries
+			.map(entry => ({ ...entry, content: this.cleanText(entry.content, fillerPattern) }))
+			.filter(entry => entry.content.length > 0);
+
+		if (this.settings.foldBackchannels) {
+			result = this.foldBackchannels(result);
+		}
+
+		return result;
+	}
+
+	/**
+	 * Clean a single turn's text
+	 */
+	cleanText(text: string, fillerPattern: RegExp | null = this.buildFillerPattern()): string {
+		return text
+			.split('\n')
+			.map(line => {
+				let cleaned = line;
+
+				if (fillerPattern) {
+					// Mark fillers removed from the start of a sentence ("Um, so...", "it. I mean, it works")
+					cleaned = cleaned.replace(fillerPattern, (match: string, offset: number) =>
+						/(?:^|[.!?])\s*$/.test(line.substring(0, offset)) ? ` ${SENTENCE_START} ` : ' ');
+				}
+
+				cleaned = this.tidyPunctuation(this.collapseStutters(cleaned));
+
+				// Re-capitalize the word that now starts the sentence
+				return cleaned
+					.replace(new RegExp(`${SENTENCE_START}[\\s,.;:…-]*(\\w)`, 'g'), (match, letter: string) => letter.toUpperCase())
+					.replace(new RegExp(`\\s*${SENTENCE_START}\\s*`, 'g'), ' ')
+					.trim();
+			})
+			.filter(line => line.length > 0)
+			.join('\n');
+	}
+
+	/**
+	 * Build one regex from the configured filler list, or null if the list is empty
+	 */
+	private buildFillerPattern(): RegExp | null {
+		const fillers = (this.settings.fillerWords || '')
+			.split(',')
+			.map(w => w.trim())
+			.filter(w => w.length > 0)
+			// Longest first so a phrase wins over a shorter overlapping entry
+			.sort((a, b) => b.length - a.length);
+		const escape = (filler: string) => filler.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+');
+		const words = fillers.filter(filler => !/\s/.test(filler)).map(escape);
+		const phrases = fillers.filter(filler => /\s/.test(filler)).map(escape);
+
+		const alternatives: string[] = [];
+		if (words.length > 0) {
+			// Match the filler plus surrounding commas so "Um, so..." -> "so..." and
+			// "going to, uh, ship" -> "going to ship"
+			alternatives.push(`(?:,\\s*)?(?<![\\w'-])(?:${words.join('|')})(?![\\w'-])[,…]*`);
+		}
+		if (phrases.length > 0) {
+			// Phrases carry meaning inside a clause ("do you know when", "I mean it"),
+			// so only strip them as an interjection: "So, you know, we shipped"
+			alternatives.push(`(?:,\\s*)?(?<=(?:^|[,.!?;:…])\\s*)(?:${phrases.join('|')})(?=\\s*(?:[,.!?;:…]|$))[,…]*`);
+		}
+
+		return alternatives.length > 0 ? new RegExp(alternatives.join('|'), 'gi') : null;
+	}
+
+	/**
+	 * "I I I think" -> "I think", "I, I think" -> "I think", "the- the" -> "the"
+	 * Only single words repeated within a clause; words that are often
+	 * doubled on purpose ("that that", "had had") need three in a row.
+	 */
+	private collapseStutters(text: string): string {
+		const repeatPattern = /\b(\w+)((?:(?:\s*-\s*|,?\s+)\1\b)+)/gi;
+		let current = text.replace(repeatPattern, (match, word: string, repeats: string) => {
+			const count = 1 + (repeats.match(new RegExp(`\\b${word}\\b`, 'gi')) || []).length;
+			return count >= (INTENTIONAL_REPEATS.includes(word.toLowerCase()) ? 3 : 2) ? word : match;
+		});
+
+		// Cut-off word fragments: "wh- what", "th- the"
+		current = current.replace(/\b(\w{1,3})-\s+(?=\1\w*)/gi, '');
+		return current;
+	}
+
+	/**
+	 * Tidy spacing and punctuation left behind by removals
+	 */
+	private tidyPunctuation(text: string): string {
+		return text
+			.replace(/\s{2,}/g, ' ')
+			.replace(/\s+([,.!?;:])/g, '$1')
+			.replace(/([,;:])(?:\s*[,;:])+/g, '$1')
+			// "ship it. You know?" leaves "ship it.?" - keep the first mark
+			.replace(/([.!?])[.!?]+/g, (match, first) => match.startsWith('...') ? match : first)
+			.replace(/^[\s,.;:…-]+/, '')
+			.trim();
+	}
+
+	/**
+	 * Drop backchannel turns and rejoin the turns they interrupted
+	 */
+	private foldBackchannels(entries: SpeakerEntry[]): SpeakerEntry[] {
+		const folded: SpeakerEntry[] = [];
+
+		for (const entry of entries) {
+			if (this.isBackchannel(entry.content) && folded.length > 0) {
+				continue;
+			}
+
+			const previous = folded[folded.length - 1];
+			if (previous && previous.speaker === entry.speaker) {
+				// Same speaker on both sides of a dropped backchannel - merge
+				previous.content = `${previous.content}\n${entry.content}`;
+				previous.end = entry.end ?? previous.end;
+				continue;
+			}
+
+			folded.push({ ...entry });
+		}
+
+		return folded;
+	}
+
+	private isBackchannel(content: string): boolean {
+		const normalized = content.toLowerCase().replace(/[^a-z\s-]/g, ' ').replace(/\s+/g, ' ').trim();
+		if (!normalized) {
+			return true;
+		}
+
+		// "Yeah", "Okay, got it", "Yeah yeah" - but nothing longer than a few words
+		let remaining = normalized;
+		for (const word of [...BACKCHANNEL_WORDS].sort((a, b) => b.length - a.length)) {
+			remaining = remaining.replace(new RegExp(`\\b${word}\\b`, 'g'), ' ');
+		}
+
+		return remaining.trim().length === 0 && normalized.split(' ').length <= 4;
+	}
+}
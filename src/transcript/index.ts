@@ -1,6 +1,18 @@
-export type { TranscriptCleaner, SpeakerEntry } from './types';
+export type { TranscriptCleaner, SpeakerEntry, CleanerCandidate } from './types';
+export type { SpeakerStats, ParticipationReport } from './participation';
+export type { CustomCleanerDefinition } from './cleaner-custom';
 export { TeamsDirectPasteCleaner } from './cleaner-teams';
 export { TeamsDownloadedCleaner } from './cleaner-downloaded';
 export { TeamsDocxCleaner } from './cleaner-docx';
+export { WebVttCleaner } from './cleaner-vtt';
+export { SrtCleaner } from './cleaner-srt';
+export { ZoomTranscriptCleaner } from './cleaner-zoom';
+export { GoogleMeetCleaner } from './cleaner-meet';
 export { SimpleTranscriptCleaner } from './cleaner-simple';
+export { RegexTranscriptCleaner } from './cleaner-custom';
 export { TranscriptDetector } from './detector';
+export { renderTranscript, parseRenderedTranscript, isRenderedTranscript } from './renderer';
+export { parseTimestamp, formatTimestamp, fillEndTimes } from './timestamps';
+export { ParticipationAnalyzer } from './participation';
+export { DisfluencyFilter } from './disfluency';
+export { chunkTranscript } from './chunker';
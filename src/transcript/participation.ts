@@ -0,0 +1,227 @@
+import { SpeakerEntry } from './types';
+
+/**
+ * Per-speaker participation statistics
+ */
+export interface SpeakerStats {
+	speaker: string;
+	turns: number;
+	words: number;
+	talkSeconds: number;
+	share: number;
+}
+
+export interface ParticipationReport {
+	speakers: SpeakerStats[];
+	silentAttendees: string[];
+	totalSeconds: number;
+	estimated: boolean;
+}
+
+/**
+ * Average speaking rate used when a turn has no usable timestamps
+ */
+const WORDS_PER_MINUTE = 150;
+
+/**
+ * Builds the # Participation section from cleaned transcript entries
+ */
+export class ParticipationAnalyzer {
+	/**
+	 * Compute talk-time statistics for each speaker
+	 */
+	analyze(entries: SpeakerEntry[], attendees: string[] = []): ParticipationReport {
+		const bySpeaker = new Map<string, SpeakerStats>();
+		let estimated = false;
+
+		for (const entry of entries) {
+			const words = this.countWords(entry.content);
+
+			// Prefer real timestamps, fall back to a word-count estimate
+			let seconds: number;
+			if (entry.start !== undefined && entry.end !== undefined && entry.end >= entry.start) {
+				seconds = entry.end - entry.start;
+			} else {
+				seconds = (words / WORDS_PER_MINUTE) * 60;
+				estimated = true;
+			}
+
+			const stats = bySpeaker.get(entry.speaker) || {
+				speaker: entry.speaker,
+				turns: 0,
+				words: 0,
+				talkSeconds: 0,
+				share: 0
+			};
+
+			stats.turns++;
+			stats.words += words;
+			stats.talkSeconds += seconds;
+			bySpeaker.set(entry.speaker, stats);
+		}
+
+		const speakers = Array.from(bySpeaker.values());
+		const totalSeconds = speakers.reduce((sum, s) => sum + s.talkSeconds, 0);
+
+		for (const stats of speakers) {
+			stats.share = totalSeconds > 0 ? stats.talkSeconds / totalSeconds : 0;
+		}
+
+		// Most talkative first
+		speakers.sort((a, b) => b.talkSeconds - a.talkSeconds);
+
+		// Attendees whose name doesn't match any speaker label
+		const speakerKeys = speakers.map(s => this.normalizeName(s.speaker));
+		const silentAttendees = attendees.filter(attendee => {
+			const key = this.normalizeName(attendee);
+			return !speakerKeys.some(speakerKey => this.namesMatch(key, speakerKey));
+		});
+
+		return { speakers, silentAttendees, totalSeconds, estimated };
+	}
+
+	/**
+	 * Format a report as the # Participation section
+	 */
+	formatSection(report: ParticipationReport): string {
+		const lines: string[] = ['# Participation', ''];
+
+		lines.push('| Speaker | Turns | Words | Talk time | Share |');
+		lines.push('| --- | ---: | ---: | ---: | ---: |');
+
+		for (const stats of report.speakers) {
+			// Escape the pipe in "[[People/...|Name]]" so it doesn't split the table cell
+			const speaker = stats.speaker.replace(/\|/g, '\\|');
+			lines.push(`| ${speaker} | ${stats.turns} | ${stats.words} | ${this.formatDuration(stats.talkSeconds)} | ${Math.round(stats.share * 100)}% |`);
+		}
+
+		lines.push('');
+
+		if (report.silentAttendees.length > 0) {
+			lines.push(`**Did not speak:** ${report.silentAttendees.join(', ')}`);
+			lines.push('');
+		}
+
+		if (report.estimated) {
+			lines.push(`_Talk time estimated from word count (${WORDS_PER_MINUTE} words/min) where timestamps were unavailable._`);
+			lines.push('');
+		}
+
+		return lines.join('\n');
+	}
+
+	/**
+	 * Insert or update the # Participation section (placed above # Transcript)
+	 */
+	updateSection(content: string, entries: SpeakerEntry[]): string {
+		if (entries.length === 0) {
+			return content;
+		}
+
+		const report = this.analyze(entries, this.extractAttendees(content));
+		const section = this.formatSection(report);
+
+		const participationRegex = /# Participation\s*\n[\s\S]*?(?=\n#|$)/;
+		if (participationRegex.test(content)) {
+			return content.replace(participationRegex, section);
+		}
+
+		const transcriptRegex = /(# Transcript\s*\n)/;
+		if (transcriptRegex.test(content)) {
+			return content.replace(transcriptRegex, section + '\n$1');
+		}
+
+		return content + `\n\n${section}`;
+	}
+
+	/**
+	 * Extract attendee display names from the # Attendees section
+	 * Handles "- [[People/Last, First|First Last]]", "- [[Name]]" and "- Name"
+	 */
+	extractAttendees(content: string): string[] {
+		const attendeesMatch = content.match(/# Attendees\s*\n([\s\S]*?)(?=\n#\s|$)/);
+		if (!attendeesMatch) {
+			return [];
+		}
+
+		const names: string[] = [];
+
+		for (const line of attendeesMatch[1].split('\n')) {
+			const itemMatch = line.match(/^\s*[-*]\s+(?:\[[ x]\]\s+)?(.+)$/);
+			if (!itemMatch) {
+				continue;
+			}
+
+			let name = itemMatch[1].trim();
+
+			const linkMatch = name.match(/\[\[([^\]|]+)(?:\|([^\]]+))?\]\]/);
+			if (linkMatch) {
+				// Prefer the alias, otherwise the note name without its folder
+				name = linkMatch[2] || linkMatch[1].split('/').pop() || linkMatch[1];
+			}
+
+			if (name.trim()) {
+				names.push(name.trim());
+			}
+		}
+
+		return names;
+	}
+
+	/**
+	 * Normalize a name for comparison: "Tronkowski, Kevin (HPE)" -> "kevin tronkowski"
+	 */
+	private normalizeName(name: string): string {
+		let normalized = name.trim();
+
+		// Linked speaker: "[[People/Tronkowski, Kevin|Kevin Tronkowski]]" -> "Kevin Tronkowski"
+		const linkMatch = normalized.match(/^\[\[([^\]|]+)(?:\|([^\]]+))?\]\]$/);
+		if (linkMatch) {
+			normalized = linkMatch[2] || linkMatch[1].split('/').pop() || linkMatch[1];
+		}
+
+		normalized = normalized.replace(/\([^)]*\)/g, '').trim();
+
+		// "Last, First" -> "First Last"
+		if (normalized.includes(',')) {
+			const [last, first] = normalized.split(',').map(p => p.trim());
+			normalized = `${first || ''} ${last}`;
+		}
+
+		return normalized.toLowerCase().replace(/[^a-z0-9\s'-]/g, '').replace(/\s+/g, ' ').trim();
+	}
+
+	/**
+	 * Compare normalized names, tolerating middle names and abbreviated last names
+	 */
+	private namesMatch(a: string, b: string): boolean {
+		if (a === b) {
+			return true;
+		}
+
+		const aParts = a.split(' ');
+		const bParts = b.split(' ');
+		if (aParts[0] !== bParts[0]) {
+			return false;
+		}
+
+		// "kevin tronkowski" vs "kevin t"
+		const aLast = aParts[aParts.length - 1];
+		const bLast = bParts[bParts.length - 1];
+		return aParts.length > 1 && bParts.length > 1 &&
+		       (aLast.startsWith(bLast) || bLast.startsWith(aLast));
+	}
+
+	private countWords(text: string): number {
+		const words = text.trim().split(/\s+/);
+		return words[0] === '' ? 0 : words.length;
+	}
+
+	private formatDuration(totalSeconds: number): string {
+		const rounded = Math.round(totalSeconds);
+		const minutes = Math.floor(rounded / 60);
+		const seconds = rounded % 60;
+
+		return minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`;
+	}
+}
@@ -0,0 +1,78 @@
+import { SpeakerEntry } from './types';
+
+/**
+ * Render speaker entries as the cleaned transcript markdown
+ *
+ * Output:
+ * Speaker Name
+ * Content of what they said
+ *
+ * Another Speaker
+ * Content of what they said
+ */
+export function renderTranscript(entries: SpeakerEntry[]): string {
+	const formatted: string[] = [];
+
+	for (const entry of entries) {
+		formatted.push(entry.speaker);
+		formatted.push(entry.content);
+		formatted.push(''); // Blank line between speakers
+	}
+
+	// Remove trailing blank line
+	while (formatted.length > 0 && formatted[formatted.length - 1] === '') {
+		formatted.pop();
+	}
+
+	return formatted.join('\n');
+}
+
+/**
+ * Parse a cleaned transcript (as produced by renderTranscript) back into speaker entries
+ *
+ * Timestamps are not part of the rendered markdown, so entries have no start/end.
+ */
+export function parseRenderedTranscript(markdown: string): SpeakerEntry[] {
+	const entries: SpeakerEntry[] = [];
+	const blocks = markdown.replace(/\r\n?/g, '\n').split(/\n\s*\n/);
+
+	for (const block of blocks) {
+		const lines = block.split('\n').map(l => l.trim()).filter(l => l.length > 0);
+		if (lines.length < 2) {
+			continue;
+		}
+
+		entries.push({
+			speaker: lines[0],
+			content: lines.slice(1).join('\n')
+		});
+	}
+
+	return entries;
+}
+
+/**
+ * Whether a transcript is already in renderTranscript's format (e.g. cleaned
+ * by an earlier run or the importer), so cleaning it again would only lose turns
+ *
+ * Every block must be a speaker line - a plain name or a People link such as
+ * [[People/Jane Doe|Jane Doe]] - followed by what they said, with no
+ * timestamps or "Speaker:" labels left over from a raw export.
+ */
+export function isRenderedTranscript(markdown: string): boolean {
+	const blocks = markdown.replace(/\r\n?/g, '\n').trim().split(/\n\s*\n/);
+	if (blocks.length === 0 || !blocks[0]) {
+		return false;
+	}
+
+	return blocks.every(block => {
+		const lines = block.split('\n').map(l => l.trim()).filter(l => l.length > 0);
+		if (lines.length < 2) {
+			return false;
+		}
+
+		const isSpeaker = /^\[\[[^\]]+\]\]$/.test(lines[0]) || /^[\p{L}][\p{L} .'-]{0,60}$/u.test(lines[0]);
+		const hasTimestamp = lines.some(line => /^[[(]?\d{1,2}:\d{2}(?::\d{2})?|-->/.test(line));
+		return isSpeaker && !hasTimestamp;
+	});
+}
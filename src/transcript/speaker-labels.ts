@@ -0,0 +1,45 @@
+/**
+ * "Speaker: text" at the start of a caption line
+ */
+const SPEAKER_LABEL_PATTERN = /^([A-Z][a-zA-Z\s'.,()-]{1,60}?):\s+(.*)$/;
+
+/**
+ * Two or more capitalised words, e.g. "Jane Doe" or "Mary-Ann O'Brien"
+ */
+const FULL_NAME_PATTERN = /^[A-Z][a-zA-Z'-]*(?:\s+[A-Z][a-zA-Z'-]*)+$/;
+
+/**
+ * Split a "Speaker: text" caption line, without checking the label is a speaker
+ */
+export function splitSpeakerLabel(text: string): { label: string; text: string } | null {
+	const match = text.match(SPEAKER_LABEL_PATTERN);
+	return match ? { label: match[1].trim(), text: match[2].trim() } : null;
+}
+
+/**
+ * Names a "Speaker: text" label can be trusted for in one caption file
+ *
+ * Any capitalised word followed by a colon looks like a label ("Note: ...",
+ * "Update: ..."), so a label only counts as a speaker when a voice tag or
+ * "[Speaker]" prefix names the same person, when it starts at least two
+ * caption lines, or when it reads as a full name ("Jane Doe").
+ *
+ * @param taggedSpeakers Speakers named by tags or prefixes
+ * @param untaggedLines Caption text (markup stripped) of lines without one
+ */
+export function findLabelledSpeakers(taggedSpeakers: string[], untaggedLines: string[]): Set<string> {
+	const speakers = new Set(taggedSpeakers);
+	const counts = new Map<string, number>();
+	for (const line of untaggedLines) {
+		const split = splitSpeakerLabel(line);
+		if (split) {
+			counts.set(split.label, (counts.get(split.label) || 0) + 1);
+		}
+	}
+	for (const [label, count] of counts) {
+		if (count >= 2 || FULL_NAME_PATTERN.test(label)) {
+			speakers.add(label);
+		}
+	}
+	return speakers;
+}
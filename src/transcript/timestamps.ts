@@ -0,0 +1,79 @@
+import { SpeakerEntry } from './types';
+
+/**
+ * Parse a transcript timestamp into seconds
+ *
+ * Handles:
+ * - "HH:MM:SS", "MM:SS" (Zoom, Meet)
+ * - "HH:MM:SS.mmm", "MM:SS.mmm" (WebVTT)
+ * - "HH:MM:SS,mmm" (SRT)
+ * - "HH:MM AM", "HH:MM:SS PM" (Teams wall-clock time, as seconds since midnight)
+ */
+export function parseTimestamp(value: string): number | undefined {
+	const match = value.trim().match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?(?:[.,](\d{1,3}))?(?:\s*([AP]M))?$/i);
+	if (!match) {
+		return undefined;
+	}
+
+	let hours = 0;
+	let minutes: number;
+	let seconds: number;
+
+	if (match[3] !== undefined) {
+		hours = parseInt(match[1], 10);
+		minutes = parseInt(match[2], 10);
+		seconds = parseInt(match[3], 10);
+	} else if (match[5]) {
+		// "10:30 AM" - hours and minutes
+		hours = parseInt(match[1], 10);
+		minutes = parseInt(match[2], 10);
+		seconds = 0;
+	} else {
+		// "MM:SS"
+		minutes = parseInt(match[1], 10);
+		seconds = parseInt(match[2], 10);
+	}
+
+	// Convert 12-hour clock to 24-hour
+	const meridiem = match[5]?.toUpperCase();
+	if (meridiem === 'PM' && hours < 12) {
+		hours += 12;
+	} else if (meridiem === 'AM' && hours === 12) {
+		hours = 0;
+	}
+
+	const millis = match[4] ? parseInt(match[4].padEnd(3, '0'), 10) : 0;
+
+	return hours * 3600 + minutes * 60 + seconds + millis / 1000;
+}
+
+/**
+ * Format seconds as "HH:MM:SS"
+ */
+export function formatTimestamp(totalSeconds: number): string {
+	const whole = Math.max(0, Math.floor(totalSeconds));
+	const hours = Math.floor(whole / 3600);
+	const minutes = Math.floor((whole % 3600) / 60);
+	const seconds = whole % 60;
+
+	return [hours, minutes, seconds].map(n => n.toString().padStart(2, '0')).join(':');
+}
+
+/**
+ * Fill in missing end times from the start of the following entry
+ */
+export function fillEndTimes(entries: SpeakerEntry[]): SpeakerEntry[] {
+	for (let i = 0; i < entries.length; i++) {
+		const entry = entries[i];
+		if (entry.start === undefined || entry.end !== undefined) {
+			continue;
+		}
+
+		const next = entries.slice(i + 1).find(e => e.start !== undefined);
+		if (next && next.start! >= entry.start) {
+			entry.end = next.start;
+		}
+	}
+
+	return entries;
+}
@@ -7,11 +7,22 @@ export interface TranscriptCleaner {
 	 */
 	clean(content: string): string;
 
+	/**
+	 * Parse the transcript content into speaker entries
+	 */
+	parse(content: string): SpeakerEntry[];
+
 	/**
 	 * Check if this cleaner can handle the given content
 	 */
 	canHandle(content: string): boolean;
 
+	/**
+	 * Confidence (0-1) that the content is in this cleaner's format
+	 * 0 means the cleaner cannot handle it at all
+	 */
+	getConfidence(content: string): number;
+
 	/**
 	 * Get the name of this cleaner
 	 */
@@ -24,4 +35,21 @@ export interface TranscriptCleaner {
 export interface SpeakerEntry {
 	speaker: string;
 	content: string;
+	/**
+	 * Start time in seconds. Either an offset from the start of the recording
+	 * (captions, Meet) or a time of day (Teams, Zoom), depending on the format.
+	 */
+	start?: number;
+	/**
+	 * End time in seconds, same reference as start
+	 */
+	end?: number;
+}
+
+/**
+ * A cleaner scored against a transcript
+ */
+export interface CleanerCandidate {
+	cleaner: TranscriptCleaner;
+	confidence: number;
 }
@@ -0,0 +1,86 @@
+import { App, Modal, Setting } from 'obsidian';
+import { CleanerCandidate, TranscriptCleaner } from '../transcript';
+
+/**
+ * Number of cleaned lines shown per candidate
+ */
+const PREVIEW_LINES = 12;
+
+/**
+ * Lets the user pick a transcript cleaner when detection is ambiguous
+ * Shows a preview of each candidate's cleaned output
+ */
+export class CleanerPickerModal extends Modal {
+	private content: string;
+	private candidates: CleanerCandidate[];
+	private resolve: (cleaner: TranscriptCleaner | null) => void;
+	private chosen: TranscriptCleaner | null = null;
+
+	constructor(app: App, content: string, candidates: CleanerCandidate[], resolve: (cleaner: TranscriptCleaner | null) => void) {
+		super(app);
+		this.content = content;
+		this.candidates = candidates;
+		this.resolve = resolve;
+	}
+
+	/**
+	 * Open the picker and wait for a choice (null if dismissed)
+	 */
+	static pick(app: App, content: string, candidates: CleanerCandidate[]): Promise<TranscriptCleaner | null> {
+		return new Promise(resolve => {
+			new CleanerPickerModal(app, content, candidates, resolve).open();
+		});
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+
+		contentEl.createEl('h2', { text: 'Choose transcript format' });
+		contentEl.createEl('p', {
+			text: 'Several transcript formats match this meeting. Pick the one whose preview looks right - the choice is saved to the note\'s frontmatter.'
+		});
+
+		for (const candidate of this.candidates) {
+			const name = candidate.cleaner.getName();
+
+			new Setting(contentEl)
+				.setName(name)
+				.setDesc(`Confidence: ${Math.round(candidate.confidence * 100)}%`)
+				.addButton(button => button
+					.setButtonText('Use this format')
+					.setCta()
+					.onClick(() => {
+						this.chosen = candidate.cleaner;
+						this.close();
+					}));
+
+			const preview = contentEl.createEl('pre', { text: this.buildPreview(candidate.cleaner) });
+			preview.setCssStyles({
+				maxHeight: '12em',
+				overflow: 'auto',
+				whiteSpace: 'pre-wrap',
+				fontSize: 'var(--font-smaller)'
+			});
+		}
+	}
+
+	onClose() {
+		this.contentEl.empty();
+		this.resolve(this.chosen);
+	}
+
+	private buildPreview(cleaner: TranscriptCleaner): string {
+		try {
+			const cleaned = cleaner.clean(this.content);
+			if (!cleaned.trim()) {
+				return '(no speaker turns found)';
+			}
+
+			const lines = cleaned.split('\n');
+			const preview = lines.slice(0, PREVIEW_LINES).join('\n');
+			return lines.length > PREVIEW_LINES ? preview + '\n…' : preview;
+		} catch (error) {
+			return `(preview failed: ${error.message})`;
+		}
+	}
+}
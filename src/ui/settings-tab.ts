@@ -1,20 +1,41 @@
-import { App, PluginSettingTab, Setting } from 'obsidian';
+import { App, PluginSettingTab, Setting, debounce } from 'obsidian';
 import MeetingProcessorPlugin from '../../main';
+import { ConnectionDiagnostics, DiagnosticResult } from '../diagnostics';
 
 export interface MeetingProcessorSettings {
 	// AI Settings
+	llmProvider: string;
 	model: string;
 	copilotCliPath: string;
+	llmEndpoint: string;
+	llmModel: string;
+	llmApiKey: string;
+	promptTimeoutSeconds: string;
+	maxRetries: string;
+	promptCacheSize: string;
+	promptCacheExpiryDays: string;
 	
 	// Vault Paths
 	meetingsFolder: string;
 	peopleFolder: string;
 	mediaFolder: string;
 	templatesFolder: string;
+	skillsFolder: string;
 	
 	// Processing Preferences
 	autoCreateProfiles: boolean;
 	autoCleanTranscript: boolean;
+	includeParticipation: boolean;
+	removeDisfluencies: boolean;
+	fillerWords: string;
+	foldBackchannels: boolean;
+	linkSpeakers: boolean;
+	summaryChunkSize: string;
+	streamSummaries: boolean;
+	extractOutcomes: boolean;
+	describeImages: boolean;
+	customCleanersPath: string;
+	debugMode: boolean;
 	
 	// JIRA Integration
 	jiraEmail: string;
@@ -30,14 +51,34 @@ export interface MeetingProcessorSettings {
 }
 
 export const DEFAULT_SETTINGS: MeetingProcessorSettings = {
+	llmProvider: 'copilot',
 	model: 'claude-sonnet-4',
 	copilotCliPath: 'copilot', // Will be auto-detected or set by user
+	llmEndpoint: 'http://localhost:11434/v1', // Ollama's OpenAI-compatible API
+	llmModel: 'llama3.1',
+	llmApiKey: '',
+	promptTimeoutSeconds: '120',
+	maxRetries: '2',
+	promptCacheSize: '200',
+	promptCacheExpiryDays: '30',
 	meetingsFolder: 'Meetings',
 	peopleFolder: 'People',
 	mediaFolder: 'Media',
 	templatesFolder: 'Templates',
+	skillsFolder: '', // Empty = bundled skills only
 	autoCreateProfiles: true,
 	autoCleanTranscript: true,
+	includeParticipation: false,
+	removeDisfluencies: false,
+	fillerWords: 'um, uh, umm, uhm, erm, hmm, mhm',
+	foldBackchannels: false,
+	linkSpeakers: true,
+	summaryChunkSize: '20000',
+	streamSummaries: true,
+	extractOutcomes: true,
+	describeImages: false,
+	customCleanersPath: '',
+	debugMode: false,
 	jiraEmail: '',
 	jiraApiToken: '',
 	jiraBaseUrl: 'https://hpe.atlassian.net',
@@ -51,6 +92,9 @@ export const DEFAULT_SETTINGS: MeetingProcessorSettings = {
 export class MeetingProcessorSettingTab extends PluginSettingTab {
 	plugin: MeetingProcessorPlugin;
 
+	/** Reloads skills once typing in the Skills Folder field has stopped, not on every keystroke */
+	private reloadSkills = debounce(() => this.plugin.skillLoader.loadAll(), 1000, true);
+
 	constructor(app: App, plugin: MeetingProcessorPlugin) {
 		super(app, plugin);
 		this.plugin = plugin;
@@ -64,6 +108,19 @@ export class MeetingProcessorSettingTab extends PluginSettingTab {
 		// AI Settings
 		containerEl.createEl('h2', { text: 'AI Settings' });
 
+		new Setting(containerEl)
+			.setName('AI Provider')
+			.setDesc('Where prompts are sent. Use an OpenAI-compatible server (Ollama, llama.cpp) to keep data on this machine')
+			.addDropdown(dropdown => dropdown
+				.addOption('copilot', 'GitHub Copilot')
+				.addOption('openai', 'OpenAI-compatible endpoint')
+				.addOption('mock', 'Mock (testing, no model)')
+				.setValue(this.plugin.settings.llmProvider)
+				.onChange(async (value) => {
+					this.plugin.settings.llmProvider = value;
+					await this.plugin.saveSettings();
+				}));
+
 		new Setting(containerEl)
 			.setName('Model')
 			.setDesc('AI model to use for processing')
@@ -90,6 +147,86 @@ export class MeetingProcessorSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
+		new Setting(containerEl)
+			.setName('Endpoint URL')
+			.setDesc('Base URL of the OpenAI-compatible API (Ollama: http://localhost:11434/v1, llama.cpp: http://localhost:8080/v1)')
+			.addText(text => text
+				.setPlaceholder('http://localhost:11434/v1')
+				.setValue(this.plugin.settings.llmEndpoint)
+				.onChange(async (value) => {
+					this.plugin.settings.llmEndpoint = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Endpoint Model')
+			.setDesc('Model name to request from the OpenAI-compatible endpoint')
+			.addText(text => text
+				.setPlaceholder('llama3.1')
+				.setValue(this.plugin.settings.llmModel)
+				.onChange(async (value) => {
+					this.plugin.settings.llmModel = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Endpoint API Key')
+			.setDesc('Optional bearer token (not needed for local servers)')
+			.addText(text => {
+				text.inputEl.type = 'password';
+				text
+					.setPlaceholder('Optional')
+					.setValue(this.plugin.settings.llmApiKey)
+					.onChange(async (value) => {
+						this.plugin.settings.llmApiKey = value;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('Prompt Timeout')
+			.setDesc('Seconds to wait for each model response before giving up (a timed-out summary is never saved)')
+			.addText(text => text
+				.setPlaceholder('120')
+				.setValue(this.plugin.settings.promptTimeoutSeconds)
+				.onChange(async (value) => {
+					this.plugin.settings.promptTimeoutSeconds = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Retries')
+			.setDesc('How many times to retry after a timeout or transient connection/session error (waits 2s, 4s, 8s, ...)')
+			.addText(text => text
+				.setPlaceholder('2')
+				.setValue(this.plugin.settings.maxRetries)
+				.onChange(async (value) => {
+					this.plugin.settings.maxRetries = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Response Cache Size')
+			.setDesc('Number of model responses to keep, so reprocessing an unchanged meeting skips the model (0 = no caching)')
+			.addText(text => text
+				.setPlaceholder('200')
+				.setValue(this.plugin.settings.promptCacheSize)
+				.onChange(async (value) => {
+					this.plugin.settings.promptCacheSize = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Response Cache Expiry')
+			.setDesc('Days before a cached response is discarded (0 = never)')
+			.addText(text => text
+				.setPlaceholder('30')
+				.setValue(this.plugin.settings.promptCacheExpiryDays)
+				.onChange(async (value) => {
+					this.plugin.settings.promptCacheExpiryDays = value;
+					await this.plugin.saveSettings();
+				}));
+
 		// Vault Paths
 		containerEl.createEl('h2', { text: 'Vault Paths' });
 
@@ -137,6 +274,18 @@ export class MeetingProcessorSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
+		new Setting(containerEl)
+			.setName('Skills Folder')
+			.setDesc('Vault folder of skill files that replace bundled skills with the same file name or add new ones (leave empty to use bundled skills only)')
+			.addText(text => text
+				.setPlaceholder('Meeting Processor/Skills')
+				.setValue(this.plugin.settings.skillsFolder)
+				.onChange(async (value) => {
+					this.plugin.settings.skillsFolder = value;
+					await this.plugin.saveSettings();
+					this.reloadSkills();
+				}));
+
 		// Processing Preferences
 		containerEl.createEl('h2', { text: 'Processing Preferences' });
 
@@ -160,6 +309,119 @@ export class MeetingProcessorSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
+		new Setting(containerEl)
+			.setName('Participation Section')
+			.setDesc('Add a Participation section with turns, word count, talk time and share per speaker after cleaning a transcript')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.includeParticipation)
+				.onChange(async (value) => {
+					this.plugin.settings.includeParticipation = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Remove Filler Words')
+			.setDesc('Strip filler words and collapse stuttered words ("I I think") when cleaning a transcript')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.removeDisfluencies)
+				.onChange(async (value) => {
+					this.plugin.settings.removeDisfluencies = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Filler Words')
+			.setDesc('Comma-separated words and phrases to remove (case-insensitive). Phrases like "you know" are only removed between commas or sentence breaks')
+			.addTextArea(text => text
+				.setPlaceholder('um, uh, you know')
+				.setValue(this.plugin.settings.fillerWords)
+				.onChange(async (value) => {
+					this.plugin.settings.fillerWords = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Fold Backchannel Turns')
+			.setDesc('Drop one-word acknowledgement turns ("Yeah", "Okay") and merge the turns they interrupted (requires Remove Filler Words)')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.foldBackchannels)
+				.onChange(async (value) => {
+					this.plugin.settings.foldBackchannels = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Link Speakers to People')
+			.setDesc('Render transcript speaker names as links to matching People profiles (alias and fuzzy match, never creates profiles)')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.linkSpeakers)
+				.onChange(async (value) => {
+					this.plugin.settings.linkSpeakers = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Summary Chunk Size')
+			.setDesc('Transcripts longer than this many characters are summarized in parts and then merged (minimum 2000)')
+			.addText(text => text
+				.setPlaceholder('20000')
+				.setValue(this.plugin.settings.summaryChunkSize)
+				.onChange(async (value) => {
+					this.plugin.settings.summaryChunkSize = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Stream Summaries')
+			.setDesc('Write summaries into the note as they are generated (the section is restored if generation fails)')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.streamSummaries)
+				.onChange(async (value) => {
+					this.plugin.settings.streamSummaries = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Extract Action Items')
+			.setDesc('After the summary, extract decisions, action items (owner, due date, JIRA key), risks and open questions into a # Meeting Outcomes section')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.extractOutcomes)
+				.onChange(async (value) => {
+					this.plugin.settings.extractOutcomes = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Describe Embedded Images')
+			.setDesc('Transcribe whiteboard photos, slide screenshots and diagrams embedded in the note into an # Image Notes section (png, jpg, webp, gif; SCR- attendee screenshots are skipped)')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.describeImages)
+				.onChange(async (value) => {
+					this.plugin.settings.describeImages = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Custom Transcript Cleaners')
+			.setDesc('Vault path to a JSON or YAML file declaring extra transcript formats (leave empty to disable)')
+			.addText(text => text
+				.setPlaceholder('Config/transcript-cleaners.yaml')
+				.setValue(this.plugin.settings.customCleanersPath)
+				.onChange(async (value) => {
+					this.plugin.settings.customCleanersPath = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Debug Mode')
+			.setDesc('Write every processing run (prompts, models, raw responses, transcript cleaner and skill versions) to a JSON file next to the meeting')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.debugMode)
+				.onChange(async (value) => {
+					this.plugin.settings.debugMode = value;
+					await this.plugin.saveSettings();
+				}));
+
 		// JIRA Integration
 		containerEl.createEl('h2', { text: 'JIRA Integration' });
 
@@ -255,6 +517,36 @@ export class MeetingProcessorSettingTab extends PluginSettingTab {
 				.setValue(this.plugin.settings.filenamePattern)
 				.setDisabled(true)); // Read-only for now
 
+		containerEl.createEl('h2', { text: 'Diagnostics' });
+
+		new Setting(containerEl)
+			.setName('Run Diagnostics')
+			.setDesc('Check the CLI, sign-in, selected model and JIRA settings, with hints for anything that fails')
+			.addButton(button => button
+				.setButtonText('Run')
+				.onClick(async () => {
+					resultsEl.empty();
+					// The test prompt opens a new Copilot session, which would end the one a meeting run is using
+					if (this.plugin.processing) {
+						resultsEl.createEl('p', { text: 'A meeting is being processed - run diagnostics once it finishes.' });
+						return;
+					}
+
+					button.setDisabled(true);
+					button.setButtonText('Running...');
+
+					try {
+						const diagnostics = new ConnectionDiagnostics(this.plugin.settings, this.plugin.copilotClient, this.plugin.llm);
+						const results = await diagnostics.run(result => this.renderDiagnostic(resultsEl, result));
+						const failed = results.filter(result => result.status === 'fail').length;
+						resultsEl.createEl('p', { text: failed > 0 ? `${failed} check(s) failed.` : 'All checks passed.' });
+					} finally {
+						button.setDisabled(false);
+						button.setButtonText('Run');
+					}
+				}));
+		const resultsEl = containerEl.createDiv({ cls: 'meeting-processor-diagnostics' });
+
 		// Reset button
 		new Setting(containerEl)
 			.setName('Reset to Defaults')
@@ -268,4 +560,13 @@ export class MeetingProcessorSettingTab extends PluginSettingTab {
 					this.display(); // Refresh display
 				}));
 	}
+
+	private renderDiagnostic(containerEl: HTMLElement, result: DiagnosticResult): void {
+		const icons = { pass: '✅', warn: '⚠️', fail: '❌', skip: '⏭️' };
+		const item = containerEl.createDiv();
+		item.createEl('div', { text: `${icons[result.status]} ${result.name}: ${result.detail}` });
+		if (result.hint && result.status !== 'pass') {
+			item.createEl('div', { text: result.hint, cls: 'setting-item-description' });
+		}
+	}
 }
@@ -3,12 +3,30 @@ import { setIcon } from 'obsidian';
 export class StatusBarManager {
 	private statusBarItem: HTMLElement;
 	private hideTimeout: NodeJS.Timeout | null = null;
+	private clickHandler: (() => void) | null = null;
 
 	constructor(statusBarItem: HTMLElement) {
 		this.statusBarItem = statusBarItem;
+		this.statusBarItem.addEventListener('click', () => this.clickHandler?.());
 		this.hide();
 	}
 
+	/**
+	 * Make the status bar item clickable, e.g. to cancel the running operation
+	 * @param handler Called on click (null = not clickable)
+	 * @param tooltip Shown on hover
+	 */
+	setClickHandler(handler: (() => void) | null, tooltip: string = '') {
+		this.clickHandler = handler;
+		this.statusBarItem.toggleClass('mod-clickable', !!handler);
+		this.statusBarItem.style.cursor = handler ? 'pointer' : '';
+		if (handler && tooltip) {
+			this.statusBarItem.setAttribute('aria-label', tooltip);
+		} else {
+			this.statusBarItem.removeAttribute('aria-label');
+		}
+	}
+
 	/**
 	 * Show a message in the status bar
 	 * @param message Message to display
@@ -32,6 +50,13 @@ export class StatusBarManager {
 		}
 	}
 
+	/**
+	 * Show progress through a multi-step operation, e.g. "Summarizing transcript (2/5)..."
+	 */
+	showProgress(label: string, current: number, total: number) {
+		this.show(`${label} (${current}/${total})...`, 0);
+	}
+
 	/**
 	 * Hide the status bar message
 	 */
@@ -0,0 +1,105 @@
+import { App, FuzzySuggestModal, TFile } from 'obsidian';
+
+/**
+ * A transcript file chosen for import, from the vault or the filesystem
+ */
+export interface TranscriptFileSource {
+	/** File name including extension */
+	name: string;
+	/** Wiki link (vault) or file:// URL (filesystem) to the original */
+	link: string;
+	read(): Promise<ArrayBuffer>;
+}
+
+/**
+ * Pseudo-item that opens the system file dialog
+ */
+const BROWSE_FILESYSTEM = 'Browse filesystem…';
+
+/**
+ * Lets the user pick a transcript file from the vault, or browse the filesystem
+ */
+export class TranscriptFileModal extends FuzzySuggestModal<TFile | string> {
+	private extensions: string[];
+	private resolve: (source: TranscriptFileSource | null) => void;
+	private chosen = false;
+
+	constructor(app: App, extensions: string[], resolve: (source: TranscriptFileSource | null) => void) {
+		super(app);
+		this.extensions = extensions;
+		this.resolve = resolve;
+		this.setPlaceholder(`Choose a transcript (${extensions.map(e => '.' + e).join(', ')})`);
+	}
+
+	/**
+	 * Open the picker and wait for a file (null if dismissed)
+	 */
+	static pick(app: App, extensions: string[]): Promise<TranscriptFileSource | null> {
+		return new Promise(resolve => {
+			new TranscriptFileModal(app, extensions, resolve).open();
+		});
+	}
+
+	getItems(): (TFile | string)[] {
+		const files = this.app.vault.getFiles()
+			.filter(f => this.extensions.includes(f.extension.toLowerCase()))
+			.sort((a, b) => b.stat.mtime - a.stat.mtime);
+
+		return [BROWSE_FILESYSTEM, ...files];
+	}
+
+	getItemText(item: TFile | string): string {
+		return item instanceof TFile ? item.path : item;
+	}
+
+	onChooseItem(item: TFile | string): void {
+		this.chosen = true;
+
+		if (item instanceof TFile) {
+			this.resolve({
+				name: item.name,
+				link: `[[${item.path}]]`,
+				read: () => this.app.vault.readBinary(item)
+			});
+			return;
+		}
+
+		this.browseFilesystem();
+	}
+
+	onClose() {
+		super.onClose();
+		// onChooseItem runs after onClose, so wait a tick before treating this as a dismissal
+		setTimeout(() => {
+			if (!this.chosen) {
+				this.resolve(null);
+			}
+		}, 0);
+	}
+
+	private browseFilesystem(): void {
+		const input = document.createElement('input');
+		input.type = 'file';
+		input.accept = this.extensions.map(e => '.' + e).join(',');
+
+		input.addEventListener('change', () => {
+			const file = input.files?.[0];
+			if (!file) {
+				this.resolve(null);
+				return;
+			}
+
+			// Electron exposes the absolute path on File objects
+			const path = 'path' in file && typeof file.path === 'string' ? file.path : undefined;
+			const url = path ? encodeURI(path.replace(/\\/g, '/')) : '';
+			this.resolve({
+				name: file.name,
+				link: url ? (url.startsWith('/') ? `file://${url}` : `file:///${url}`) : file.name,
+				read: () => file.arrayBuffer()
+			});
+		});
+		input.addEventListener('cancel', () => this.resolve(null));
+
+		input.click();
+	}
+}
@@ -0,0 +1,233 @@
+import { App, normalizePath } from 'obsidian';
+import { LlmTimeoutError, ProcessingCancelledError } from './llm/errors';
+
+/**
+ * How a model call ended
+ */
+export type LedgerOutcome = 'success' | 'cached' | 'error' | 'timeout' | 'cancelled';
+
+/**
+ * One model or CLI call, stored as a line of JSON in the ledger file
+ */
+export interface LedgerEntry {
+	/** ISO timestamp when the call started */
+	timestamp: string;
+	/** Meeting note path, or empty outside meeting processing */
+	file: string;
+	meetingType: string;
+	/** Processing step, e.g. "summary" */
+	step: string;
+	/** "prompt", "image", "image-cli" (Copilot CLI fallback for images) or "jira-cli" */
+	kind: string;
+	provider: string;
+	model: string;
+	promptChars: number;
+	responseChars: number;
+	durationMs: number;
+	outcome: LedgerOutcome;
+}
+
+/**
+ * Full text of a call, passed to record listeners but never written to the ledger
+ */
+export interface LedgerCallDetail {
+	prompt: string;
+	response: string;
+	error?: string;
+}
+
+/**
+ * Receives each call as it is recorded, e.g. to write a debug log
+ */
+export type LedgerListener = (entry: LedgerEntry, detail: LedgerCallDetail | null) => void;
+
+/**
+ * Rough token estimate - about four characters per token for English text
+ */
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Ledger outcome for a failed call
+ */
+export function outcomeOf(error: unknown): LedgerOutcome {
+	if (error instanceof LlmTimeoutError) {
+		return 'timeout';
+	}
+	if (error instanceof ProcessingCancelledError) {
+		return 'cancelled';
+	}
+	return 'error';
+}
+
+/**
+ * Records every model call in a JSON Lines file in the plugin folder
+ *
+ * The meeting router and handlers set the current file, meeting type and
+ * step; the LLM layer records each call against them. Entries are only ever
+ * appended, so the file is safe to inspect or copy while Obsidian runs.
+ */
+export class UsageLedger {
+	private app: App;
+	private path: string;
+	private file = '';
+	private meetingType = '';
+	private step = '';
+	private pendingWrite: Promise<void> = Promise.resolve();
+	private listeners: LedgerListener[] = [];
+
+	/**
+	 * @param path Vault-relative path of the ledger file
+	 */
+	constructor(app: App, path: string) {
+		this.app = app;
+		this.path = normalizePath(path);
+	}
+
+	/**
+	 * Attribute following calls to a meeting
+	 */
+	startRun(file: string, meetingType: string): void {
+		this.file = file;
+		this.meetingType = meetingType;
+		this.step = '';
+	}
+
+	/**
+	 * Attribute following calls to a processing step
+	 */
+	setStep(step: string): void {
+		this.step = step;
+	}
+
+	endRun(): void {
+		this.file = '';
+		this.meetingType = '';
+		this.step = '';
+	}
+
+	/**
+	 * Be told about every call as it is recorded
+	 */
+	onRecord(listener: LedgerListener): void {
+		this.listeners.push(listener);
+	}
+
+	/**
+	 * Append a call to the ledger (never throws - usage tracking must not break processing)
+	 * @param detail Prompt and response text, forwarded to listeners only
+	 */
+	record(call: Omit<LedgerEntry, 'file' | 'meetingType' | 'step'>, detail: LedgerCallDetail | null = null): void {
+		const entry: LedgerEntry = {
+			...call,
+			file: this.file,
+			meetingType: this.meetingType || 'none',
+			step: this.step || 'other'
+		};
+
+		for (const listener of this.listeners) {
+			try {
+				listener(entry, detail);
+			} catch (error) {
+				console.warn('Usage ledger listener failed:', error);
+			}
+		}
+
+		// Chained so lines never interleave
+		this.pendingWrite = this.pendingWrite
+			.then(() => this.app.vault.adapter.append(this.path, JSON.stringify(entry) + '\n'))
+			.catch(error => console.warn('Failed to write usage ledger entry:', error));
+	}
+
+	/**
+	 * Read every entry, skipping lines that don't parse
+	 */
+	async readAll(): Promise<LedgerEntry[]> {
+		await this.pendingWrite;
+
+		const adapter = this.app.vault.adapter;
+		if (!(await adapter.exists(this.path))) {
+			return [];
+		}
+
+		const entries: LedgerEntry[] = [];
+		for (const line of (await adapter.read(this.path)).split('\n')) {
+			if (!line.trim()) {
+				continue;
+			}
+			try {
+				entries.push(JSON.parse(line));
+			} catch (error) {
+				console.warn('Skipping unreadable usage ledger line:', line.substring(0, 100));
+			}
+		}
+		return entries;
+	}
+
+	/**
+	 * Render the ledger as a markdown report grouped by day, meeting type and step
+	 */
+	async buildReport(): Promise<string> {
+		const entries = await this.readAll();
+		const lines: string[] = [
+			'# Model Usage Report',
+			'',
+			`Generated ${new Date().toLocaleString()} from ${entries.length} recorded calls. Token counts are estimates (${CHARS_PER_TOKEN} characters per token); cached calls never reach the model.`,
+			''
+		];
+
+		if (entries.length === 0) {
+			lines.push('No model calls recorded yet.');
+			return lines.join('\n') + '\n';
+		}
+
+		lines.push('## Totals', '', ...this.formatTable('Provider / model', this.groupBy(entries, e => `${e.provider} / ${e.model}`)), '');
+		lines.push('## By Day', '', ...this.formatTable('Day', this.groupBy(entries, e => this.localDay(e.timestamp), true)), '');
+		lines.push('## By Meeting Type', '', ...this.formatTable('Meeting type', this.groupBy(entries, e => e.meetingType)), '');
+		lines.push('## By Step', '', ...this.formatTable('Step', this.groupBy(entries, e => `${e.step} (${e.kind})`)), '');
+
+		return lines.join('\n');
+	}
+
+	private localDay(timestamp: string): string {
+		const date = new Date(timestamp);
+		const pad = (n: number) => String(n).padStart(2, '0');
+		return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+	}
+
+	private groupBy(entries: LedgerEntry[], key: (entry: LedgerEntry) => string, newestFirst: boolean = false): Map<string, LedgerEntry[]> {
+		const groups = new Map<string, LedgerEntry[]>();
+		for (const entry of entries) {
+			const k = key(entry);
+			if (!groups.has(k)) {
+				groups.set(k, []);
+			}
+			groups.get(k)!.push(entry);
+		}
+
+		const keys = Array.from(groups.keys()).sort();
+		if (newestFirst) {
+			keys.reverse();
+		}
+		return new Map(keys.map(k => [k, groups.get(k)!]));
+	}
+
+	private formatTable(label: string, groups: Map<string, LedgerEntry[]>): string[] {
+		const rows = [
+			`| ${label} | Model calls | Cached | Failed | Prompt tokens | Response tokens | Time |`,
+			'|---|---:|---:|---:|---:|---:|---:|'
+		];
+
+		for (const [key, group] of groups) {
+			const called = group.filter(e => e.outcome !== 'cached');
+			const cached = group.length - called.length;
+			const failed = called.filter(e => e.outcome !== 'success').length;
+			const promptTokens = Math.round(called.reduce((sum, e) => sum + e.promptChars, 0) / CHARS_PER_TOKEN);
+			const responseTokens = Math.round(called.reduce((sum, e) => sum + e.responseChars, 0) / CHARS_PER_TOKEN);
+			const seconds = Math.round(called.reduce((sum, e) => sum + e.durationMs, 0) / 1000);
+
+			rows.push(`| ${key.replace(/\|/g, '\\|')} | ${called.length} | ${cached} | ${failed} | ${promptTokens.toLocaleString()} | ${responseTokens.toLocaleString()} | ${seconds}s |`);
+		}
+
+		return rows;
+	}
+}
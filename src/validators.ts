@@ -1,4 +1,4 @@
-import { TFile, App } from 'obsidian';
+import { TFile, App, parseFrontMatterTags } from 'obsidian';
 import { MeetingProcessorSettings } from './ui/settings-tab';
 
 export interface ValidationResult {
@@ -38,11 +38,8 @@ export async function validateMeetingFile(
 		};
 	}
 
-	// Check frontmatter has meeting tag
-	const content = await app.vault.read(file);
-	const hasMeetingTag = content.includes('tags: [meeting]') || 
-	                       content.includes('tags:\n  - meeting') ||
-	                       content.includes('tags: meeting');
+	// Check frontmatter has meeting tag (meeting, or a nested tag like meeting/standup)
+	const hasMeetingTag = getMeetingTags(getFrontmatter(app, file)).length > 0;
 	
 	if (!hasMeetingTag) {
 		return {
@@ -55,9 +52,64 @@ export async function validateMeetingFile(
 }
 
 /**
- * Detects meeting type from filename
+ * Parsed frontmatter of a note, from the metadata cache
  */
-export function detectMeetingType(file: TFile, settings: MeetingProcessorSettings): 'standup' | 'general' {
+function getFrontmatter(app: App, file: TFile): Record<string, any> | null {
+	return app.metadataCache.getFileCache(file)?.frontmatter ?? null;
+}
+
+/**
+ * "meeting" and "meeting/..." tags, lowercased and without the #
+ * Covers every YAML form Obsidian accepts: a list, a flow list, a single or comma-separated string, "tag:"
+ */
+function getMeetingTags(frontmatter: Record<string, any> | null): string[] {
+	return (parseFrontMatterTags(frontmatter) || [])
+		.map(tag => tag.replace(/^#/, '').toLowerCase())
+		.filter(tag => tag === 'meeting' || tag.startsWith('meeting/'));
+}
+
+/**
+ * Type ids the frontmatter names: the "meeting-type" key, then nested tags such as meeting/standup
+ */
+function getDeclaredTypeNames(frontmatter: Record<string, any> | null): string[] {
+	const names: string[] = [];
+	const explicit = frontmatter?.['meeting-type'];
+	if (typeof explicit === 'string' && explicit.trim()) {
+		names.push(explicit.trim().toLowerCase());
+	}
+	for (const tag of getMeetingTags(frontmatter).filter(tag => tag.startsWith('meeting/'))) {
+		names.push(tag.substring('meeting/'.length));
+	}
+	return names;
+}
+
+/**
+ * Meeting type the note's frontmatter asks for: the "meeting-type" key, or a
+ * nested tag such as meeting/standup
+ * Only known type ids count - nested tags are also used to group meetings
+ * (meeting/project-x), and those fall through to the filename and match rules.
+ * @param knownTypes Meeting type ids that can be declared
+ * @returns Lowercased type id, or null if the frontmatter doesn't name a known type
+ */
+export function getDeclaredMeetingType(file: TFile, app: App, knownTypes: string[]): string | null {
+	const frontmatter = getFrontmatter(app, file);
+	const explicit = frontmatter?.['meeting-type'];
+	if (typeof explicit === 'string' && explicit.trim() && !knownTypes.includes(explicit.trim().toLowerCase())) {
+		console.warn(`Unknown meeting type "${explicit}" in frontmatter (known: ${knownTypes.join(', ')}) - detecting the type instead`);
+	}
+	return getDeclaredTypeNames(frontmatter).find(name => knownTypes.includes(name)) ?? null;
+}
+
+/**
+ * Detects meeting type from frontmatter, then the filename
+ */
+export function detectMeetingType(file: TFile, app: App, settings: MeetingProcessorSettings): 'standup' | 'general' {
+	for (const name of getDeclaredTypeNames(getFrontmatter(app, file))) {
+		if (name === 'standup' || name === 'general') {
+			return name;
+		}
+	}
+
 	const keywords = settings.standupKeywords.split(',').map(k => k.trim());
 	const filename = file.basename; // Without extension
 	
@@ -71,9 +123,19 @@ export function detectMeetingType(file: TFile, settings: MeetingProcessorSetting
 }
 
 /**
- * Detects team from standup filename
+ * Detects team from the "team" frontmatter key, then the standup filename
  */
-export function detectTeam(file: TFile): 'green' | 'magenta' | null {
+export function detectTeam(file: TFile, app: App): 'green' | 'magenta' | null {
+	const team = getFrontmatter(app, file)?.team;
+	if (typeof team === 'string' && team.trim()) {
+		const name = team.trim().toLowerCase();
+		if (name === 'green' || name === 'magenta') {
+			return name;
+		}
+		console.warn(`Unknown team "${team}" in frontmatter (expected green or magenta)`);
+		return null;
+	}
+
 	const filename = file.basename.toLowerCase();
 	
 	if (filename.includes('green')) {